@@ -1,6 +1,31 @@
 import type { NextConfig } from "next";
 
+// Who may frame the embed widget (app/embed): a CSP source list such as
+// "https://example.com https://*.example.org"; anyone by default. Every
+// other page only frames itself.
+const embedAncestors = process.env.SLOTFM_EMBED_ANCESTORS?.trim() || "*";
+
 const nextConfig: NextConfig = {
+  async headers() {
+    return [
+      {
+        source: "/embed",
+        headers: [
+          {
+            key: "Content-Security-Policy",
+            value: `frame-ancestors ${embedAncestors}`,
+          },
+        ],
+      },
+      {
+        source: "/((?!embed).*)",
+        headers: [
+          { key: "Content-Security-Policy", value: "frame-ancestors 'self'" },
+          { key: "X-Frame-Options", value: "SAMEORIGIN" },
+        ],
+      },
+    ];
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,69 @@
+/**
+ * GET /api/lastfm/blend-count
+ * Query params: users (comma-separated)
+ *
+ * Size of the common ground between several users: how many tracks all of
+ * them have scrobbled (see blend.ts), returned as `maxPlaycount` so the
+ * reels can be bounded by it, plus each participant's profile basics.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { getBlend } from "@/lib/blend";
+import { fetchUserInfo } from "@/lib/lastfm";
+import { MAX_PARTY_USERS, Participant, parsePartyUsers } from "@/lib/party";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const users = parsePartyUsers(searchParams.get("users") ?? "");
+    if (users.length < 2 || users.length > MAX_PARTY_USERS) {
+      return apiError({
+        error: `Common-ground spins take 2 to ${MAX_PARTY_USERS} usernames`,
+        status: 400,
+      });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const infos = await Promise.all(
+      users.map((user) => fetchUserInfo(apiKey, user))
+    );
+    const participants: Participant[] = [];
+    for (const info of infos) {
+      if ("error" in info) {
+        return apiError(info);
+      }
+      participants.push({
+        user: info.name,
+        playcount: info.playcount,
+        avatar: info.avatar,
+        registered: info.registered,
+      });
+    }
+
+    const blend = await getBlend(users, apiKey);
+    if ("error" in blend) {
+      return apiError(blend);
+    }
+
+    return NextResponse.json(
+      { maxPlaycount: blend.length, participants },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/lastfm/daily
+ * Query params: user, date?, providers?, market?
+ *
+ * `user`'s track of the day for `date` (YYYY-MM-DD, UTC; default today):
+ * the same pick for everyone, from the scrobbles before that day (see
+ * daily.ts). Responds like get-nth-song plus `date`, `seed` and `pool`.
+ * Future dates are rejected: their pool isn't settled yet.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { withCacheStatus } from "@/lib/cache";
+import { dailyDate, isDailyDate } from "@/lib/daily";
+import { loadDailySpin } from "@/lib/dailySpin";
+import { parseEnrichmentParams } from "@/lib/enrichment";
+
+export const GET = withCacheStatus(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    if (!user) {
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
+    }
+
+    const today = dailyDate();
+    const date = searchParams.get("date") ?? today;
+    if (!isDailyDate(date) || date > today) {
+      return apiError({
+        error: "Invalid 'date' value (YYYY-MM-DD, not in the future)",
+        status: 400,
+      });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const result = await loadDailySpin(user, date, enrichment);
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    return NextResponse.json(result, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+});
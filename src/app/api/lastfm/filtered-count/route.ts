@@ -0,0 +1,69 @@
+/**
+ * GET /api/lastfm/filtered-count
+ * Query params: user, artist?, album?, title?, tag?, exclude?, from?, to?
+ *
+ * Size of a filtered spin's pool (see filteredPool.ts) as `maxPlaycount`,
+ * so the reels can be bounded by it. At least one filter is required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { getFilteredPool } from "@/lib/filteredPool";
+import { hasFilters, readFilters } from "@/lib/filters";
+import { parseTimeRange } from "@/lib/lastfm";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    if (!user) {
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
+    }
+
+    const filters = readFilters(searchParams);
+    if (!hasFilters(filters)) {
+      return apiError({
+        error: "Give at least one of: artist, album, title, tag, exclude",
+        status: 400,
+      });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const pool = await getFilteredPool(user, apiKey, filters, range);
+    if ("error" in pool) {
+      return apiError(pool);
+    }
+
+    return NextResponse.json(
+      { maxPlaycount: pool.total, source: pool.source },
+      {
+        headers: {
+          // Local pools change whenever a sync lands; don't let a CDN pin it.
+          "Cache-Control":
+            pool.source === "local"
+              ? "no-store"
+              : "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
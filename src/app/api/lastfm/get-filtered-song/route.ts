@@ -0,0 +1,110 @@
+/**
+ * GET /api/lastfm/get-filtered-song
+ * Query params: user, n, artist?, album?, title?, tag?, exclude?, from?, to?,
+ * providers?, market?
+ *
+ * The filtered counterpart of get-nth-song: `n` indexes the pool that
+ * filtered-count sized (see filteredPool.ts), so a uniformly random `n`
+ * is a uniformly random matching scrobble. Live pools are weighted by
+ * playcount, and their results carry it as `playcount`; album art comes
+ * from track.getInfo when the pool had none. Service enrichment as in
+ * get-nth-song.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+import { getFilteredPool, pickFromPool } from "@/lib/filteredPool";
+import { hasFilters, readFilters } from "@/lib/filters";
+import { describeTrack, durationOf, parseTimeRange } from "@/lib/lastfm";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const n = Number(searchParams.get("n"));
+
+    if (!user || !Number.isInteger(n) || n < 1) {
+      return apiError({
+        error: "Missing or invalid parameters: user, n",
+        status: 400,
+      });
+    }
+
+    const filters = readFilters(searchParams);
+    if (!hasFilters(filters)) {
+      return apiError({
+        error: "Give at least one of: artist, album, title, tag, exclude",
+        status: 400,
+      });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const pool = await getFilteredPool(user, apiKey, filters, range);
+    if ("error" in pool) {
+      return apiError(pool);
+    }
+    const picked = pickFromPool(pool, n);
+    if (!picked) {
+      return apiError({
+        error: "No matching scrobble at the specified index.",
+        status: 404,
+      });
+    }
+
+    const described =
+      picked.track.image.length > 0
+        ? null
+        : await describeTrack(
+            apiKey,
+            picked.track.artist["#text"],
+            picked.track.name,
+            user
+          );
+    const track = described?.track ?? picked.track;
+    const { spotify, links } = await enrichTrack(
+      track,
+      enrichment,
+      durationOf(described?.info ?? null)
+    );
+
+    return NextResponse.json(
+      {
+        track,
+        spotify,
+        links,
+        n,
+        total: pool.total,
+        uts: track.date?.uts ? Number(track.date.uts) : null,
+        source: pool.source,
+        playcount: pool.source === "live" ? picked.weight : undefined,
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
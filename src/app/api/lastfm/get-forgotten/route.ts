@@ -0,0 +1,223 @@
+/**
+ * GET /api/lastfm/get-forgotten
+ * Query params: user, n, maxPlaycount, to, from?, maxPlays?
+ *
+ * "Forgotten gems": `n`/`maxPlaycount` index the scrobbles up to `to` (the
+ * cutoff, unix seconds) exactly like get-nth-song, from the local history
+ * index once the user has one and from the live API otherwise (`source`
+ * says which). Starting at that scrobble, the route walks outward through
+ * the page's worth around it and returns the first track the user has
+ * played at most `maxPlays` times (track.getInfo `userplaycount`) and not
+ * at all since the cutoff.
+ *
+ * The response carries the resolved `n` so the reels can show where the
+ * gem was actually found, plus `gem: { lastPlayed, playcount }`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { recentPageTtl } from "@/lib/cache";
+import {
+  buildLastFmUrl,
+  durationOf,
+  fetchLastScrobbleOf,
+  fetchTrackInfo,
+  LastFmTrack,
+  PAGE_LIMIT,
+  pageForPosition,
+  parseTimeRange,
+  readRecentTracks,
+  TimeRange,
+} from "@/lib/lastfm";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+import { getLocalHistory } from "@/lib/historyStore";
+import { lastFmGet, LastFmFailure } from "@/lib/lastfmClient";
+
+// Each candidate costs up to two Last.fm calls; keep the walk short.
+const MAX_CANDIDATES = 8;
+const DEFAULT_MAX_PLAYS = 5;
+
+/** In-page indices ordered by distance from `start`: s, s+1, s-1, s+2, … */
+function outwardFrom(start: number, length: number) {
+  const order: number[] = [];
+  for (let d = 0; order.length < length && d < length; d++) {
+    if (start + d < length) order.push(start + d);
+    if (d > 0 && start - d >= 0) order.push(start - d);
+  }
+  return order;
+}
+
+type Nearby = {
+  /** Scrobbles around `n`, each with its own `n` */
+  scrobbles: Array<{ track: LastFmTrack; n: number }>;
+  /** Where `n` itself is in `scrobbles` */
+  start: number;
+  source: "local" | "live";
+};
+
+/**
+ * A page's worth of scrobbles around `n` inside `range`: from the local
+ * history index when there is one, else the user.getRecentTracks page
+ * holding `n`.
+ */
+async function scrobblesNear(
+  user: string,
+  apiKey: string,
+  n: number,
+  maxPlaycount: number,
+  range: TimeRange
+): Promise<Nearby | { error: string; status: number } | LastFmFailure> {
+  const local = await getLocalHistory(user);
+  if (local) {
+    const total = local.count(range);
+    if (n > total) {
+      return { error: "Track not found at the specified index.", status: 404 };
+    }
+    const first = Math.max(1, n - PAGE_LIMIT / 2);
+    const last = Math.min(total, first + PAGE_LIMIT - 1);
+    const scrobbles: Nearby["scrobbles"] = [];
+    for (let at = first; at <= last; at++) {
+      const track = local.at(at, range);
+      if (track) scrobbles.push({ track, n: at });
+    }
+    return { scrobbles, start: n - first, source: "local" };
+  }
+
+  const nFromLatest = maxPlaycount - n + 1;
+  const { page, indexInPage } = pageForPosition(nFromLatest);
+  const result = await lastFmGet(
+    buildLastFmUrl("user.getRecentTracks", apiKey, {
+      user,
+      limit: PAGE_LIMIT,
+      page,
+      from: range.from,
+      to: range.to,
+    }),
+    recentPageTtl(range)
+  );
+  if ("error" in result) return result;
+  // Newest first: the page's first track is maxPlaycount - (page - 1) * limit
+  const scrobbles = readRecentTracks(result.data).tracks.map((track, i) => ({
+    track,
+    n: maxPlaycount - (page - 1) * PAGE_LIMIT - i,
+  }));
+  return { scrobbles, start: indexInPage, source: "live" };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const n = Number(searchParams.get("n"));
+    const maxPlaycount = Number(searchParams.get("maxPlaycount"));
+    const maxPlaysParam = searchParams.get("maxPlays");
+    const maxPlays = maxPlaysParam ? Number(maxPlaysParam) : DEFAULT_MAX_PLAYS;
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+    const cutoff = range.to;
+
+    if (
+      !user ||
+      cutoff === undefined ||
+      !Number.isInteger(n) ||
+      !Number.isInteger(maxPlaycount) ||
+      n < 1 ||
+      n > maxPlaycount
+    ) {
+      return apiError({
+        error: "Missing or invalid parameters: user, n, maxPlaycount, to",
+        status: 400,
+      });
+    }
+    if (!Number.isInteger(maxPlays) || maxPlays < 1) {
+      return apiError({ error: "Invalid 'maxPlays' value", status: 400 });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    // From the local history index when the user has one, like
+    // max-playcount's count, so `n` names the same scrobble in both
+    const nearby = await scrobblesNear(user, apiKey, n, maxPlaycount, range);
+    if ("error" in nearby) {
+      return apiError(nearby);
+    }
+
+    // Distinct, timestamped candidates nearest to the rolled scrobble first.
+    const seen = new Set<string>();
+    const candidates: Array<{ track: LastFmTrack; n: number }> = [];
+    for (const index of outwardFrom(nearby.start, nearby.scrobbles.length)) {
+      const { track: t, n: at } = nearby.scrobbles[index];
+      if (!t?.date) continue;
+      const key = `${t.artist?.["#text"]}\u0000${t.name}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ track: t, n: at });
+      if (candidates.length >= MAX_CANDIDATES) break;
+    }
+
+    // Playcounts in parallel; the last-played check only for the survivors.
+    const infos = await Promise.all(
+      candidates.map((c) =>
+        fetchTrackInfo(apiKey, c.track.artist["#text"], c.track.name, user)
+      )
+    );
+
+    for (const [i, { track, n: resolved }] of candidates.entries()) {
+      const playcount = Number(infos[i]?.userplaycount);
+      if (isNaN(playcount) || playcount > maxPlays) continue;
+
+      const lastPlayed = await fetchLastScrobbleOf(
+        apiKey,
+        user,
+        track.artist["#text"],
+        track.name
+      );
+      if (lastPlayed === null || lastPlayed > cutoff) continue;
+
+      const { spotify, links } = await enrichTrack(
+        track,
+        enrichment,
+        durationOf(infos[i])
+      );
+
+      return NextResponse.json(
+        {
+          track,
+          spotify,
+          links,
+          n: resolved,
+          gem: { lastPlayed, playcount },
+          source: nearby.source,
+        },
+        {
+          headers: {
+            "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+          },
+        }
+      );
+    }
+
+    return apiError({
+      error: "No forgotten gems near this spot. Spin again!",
+      status: 404,
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
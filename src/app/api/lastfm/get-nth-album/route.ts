@@ -0,0 +1,114 @@
+/**
+ * GET /api/lastfm/get-nth-album
+ * Query params: user, n
+ *
+ * Picks the album at rank `n` of the user's overall user.getTopAlbums and
+ * returns its opening track (album.getInfo) as the result, in the same
+ * `{ track, spotify }` shape as get-nth-song.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { TTL } from "@/lib/cache";
+import {
+  buildLastFmUrl,
+  fetchTopItemAt,
+  LastFmImage,
+  LastFmTrack,
+} from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const n = Number(searchParams.get("n"));
+
+    if (!user || !Number.isInteger(n) || n < 1) {
+      return apiError({
+        error: "Missing or invalid parameters: user, n",
+        status: 400,
+      });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const top = await fetchTopItemAt("albums", user, apiKey, n);
+    if ("error" in top) {
+      return apiError(top);
+    }
+    const artist = top.item.artist?.name ?? "";
+
+    // `duration` here is in seconds, unlike track.getInfo's ms
+    type AlbumTrack = { name?: string; url?: string; duration?: number };
+    const result = await lastFmGet<{
+      album?: {
+        name?: string;
+        image?: LastFmImage;
+        tracks?: { track?: AlbumTrack | AlbumTrack[] };
+      };
+    }>(
+      buildLastFmUrl("album.getInfo", apiKey, {
+        artist,
+        album: top.item.name,
+        autocorrect: 1,
+      }),
+      TTL.catalog
+    );
+
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    const data = result.data;
+    // A one-track album comes back as an object rather than an array.
+    const tracks = data.album?.tracks?.track;
+    const opener = Array.isArray(tracks) ? tracks[0] : tracks;
+
+    // Albums without a tracklist still make a valid result: show the title.
+    const track: LastFmTrack = {
+      artist: { "#text": artist },
+      name: opener?.name ?? top.item.name,
+      album: { "#text": data.album?.name ?? top.item.name },
+      image: data.album?.image ?? top.item.image ?? [],
+      url: opener?.url ?? top.item.url,
+    };
+    const { spotify, links } = await enrichTrack(
+      track,
+      enrichment,
+      Number(opener?.duration) * 1000 || undefined
+    );
+
+    return NextResponse.json(
+      {
+        track,
+        spotify,
+        links,
+        rank: n,
+        total: top.total,
+        playcount: Number(top.item.playcount),
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
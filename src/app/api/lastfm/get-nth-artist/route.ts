@@ -0,0 +1,112 @@
+/**
+ * GET /api/lastfm/get-nth-artist
+ * Query params: user, n
+ *
+ * Picks the artist at rank `n` of the user's overall user.getTopArtists and
+ * returns that artist's most popular track (artist.getTopTracks) as the
+ * result, in the same `{ track, spotify }` shape as get-nth-song.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { TTL } from "@/lib/cache";
+import {
+  buildLastFmUrl,
+  describeTrack,
+  durationOf,
+  fetchTopItemAt,
+} from "@/lib/lastfm";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+import { lastFmGet } from "@/lib/lastfmClient";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const n = Number(searchParams.get("n"));
+
+    if (!user || !Number.isInteger(n) || n < 1) {
+      return apiError({
+        error: "Missing or invalid parameters: user, n",
+        status: 400,
+      });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const top = await fetchTopItemAt("artists", user, apiKey, n);
+    if ("error" in top) {
+      return apiError(top);
+    }
+    const artist = top.item.name;
+
+    type TopTrack = { name?: string };
+    const result = await lastFmGet<{
+      toptracks?: { track?: TopTrack | TopTrack[] };
+    }>(
+      buildLastFmUrl("artist.getTopTracks", apiKey, {
+        artist,
+        limit: 1,
+        autocorrect: 1,
+      }),
+      TTL.catalog
+    );
+
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    const topTracks = result.data.toptracks?.track;
+    const first = Array.isArray(topTracks) ? topTracks[0] : topTracks;
+
+    if (!first?.name) {
+      return apiError({
+        error: "No tracks found for this artist.",
+        status: 404,
+      });
+    }
+
+    const { track, info } = await describeTrack(
+      apiKey,
+      artist,
+      first.name,
+      user
+    );
+    const { spotify, links } = await enrichTrack(
+      track,
+      enrichment,
+      durationOf(info)
+    );
+
+    return NextResponse.json(
+      {
+        track,
+        spotify,
+        links,
+        rank: n,
+        total: top.total,
+        playcount: Number(top.item.playcount),
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
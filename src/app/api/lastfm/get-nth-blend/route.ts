@@ -0,0 +1,95 @@
+/**
+ * GET /api/lastfm/get-nth-blend
+ * Query params: users (comma-separated), n, providers?, market?
+ *
+ * Returns the track at position `n` of the users' common ground (see
+ * blend.ts and blend-count), with `blend` giving each user's playcount of
+ * it. Album name and art come from track.getInfo; service enrichment as in
+ * get-nth-song.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { getBlend } from "@/lib/blend";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+import { describeTrack, durationOf } from "@/lib/lastfm";
+import { MAX_PARTY_USERS, parsePartyUsers } from "@/lib/party";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const users = parsePartyUsers(searchParams.get("users") ?? "");
+    const n = Number(searchParams.get("n"));
+
+    if (
+      users.length < 2 ||
+      users.length > MAX_PARTY_USERS ||
+      !Number.isInteger(n) ||
+      n < 1
+    ) {
+      return apiError({
+        error: "Missing or invalid parameters: users, n",
+        status: 400,
+      });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const blend = await getBlend(users, apiKey);
+    if ("error" in blend) {
+      return apiError(blend);
+    }
+    const entry = blend[n - 1];
+    if (!entry) {
+      return apiError({
+        error: "No shared track at the specified index.",
+        status: 404,
+      });
+    }
+
+    const { track, info } = await describeTrack(
+      apiKey,
+      entry.artist,
+      entry.name
+    );
+    const { spotify, links } = await enrichTrack(
+      track,
+      enrichment,
+      durationOf(info)
+    );
+
+    return NextResponse.json(
+      {
+        track,
+        spotify,
+        links,
+        rank: n,
+        total: blend.length,
+        blend: users.map((user, i) => ({
+          user,
+          playcount: entry.playcounts[i],
+        })),
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
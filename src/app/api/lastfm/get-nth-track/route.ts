@@ -0,0 +1,79 @@
+/**
+ * GET /api/lastfm/get-nth-track
+ * Query params: user, n
+ *
+ * Returns the track at rank `n` of the user's overall user.getTopTracks, so
+ * every distinct track is equally likely no matter how often it was played.
+ * Album name and art come from track.getInfo; service enrichment
+ * (`providers`, `market`) as in get-nth-song.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { describeTrack, durationOf, fetchTopItemAt } from "@/lib/lastfm";
+import { enrichTrack, parseEnrichmentParams } from "@/lib/enrichment";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const n = Number(searchParams.get("n"));
+
+    if (!user || !Number.isInteger(n) || n < 1) {
+      return apiError({
+        error: "Missing or invalid parameters: user, n",
+        status: 400,
+      });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const top = await fetchTopItemAt("tracks", user, apiKey, n);
+    if ("error" in top) {
+      return apiError(top);
+    }
+
+    const { track, info } = await describeTrack(
+      apiKey,
+      top.item.artist?.name ?? "",
+      top.item.name,
+      user
+    );
+    const { spotify, links } = await enrichTrack(
+      track,
+      enrichment,
+      durationOf(info)
+    );
+
+    return NextResponse.json(
+      {
+        track,
+        spotify,
+        links,
+        rank: n,
+        total: top.total,
+        playcount: Number(top.item.playcount),
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
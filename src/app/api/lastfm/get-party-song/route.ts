@@ -0,0 +1,96 @@
+/**
+ * GET /api/lastfm/get-party-song
+ * Query params: users, counts, n, weighting?, from?, to?, providers?, market?
+ *
+ * Party-mode counterpart of get-nth-song. `counts` are the participants'
+ * scrobble counts from party-playcount, in the same order as `users`;
+ * `n` indexes the virtual pool they form under `weighting` (see party.ts).
+ * The scrobble is looked up in the participant `n` lands on, exactly as
+ * get-nth-song would, and `party` says whose history it came from.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { parseEnrichmentParams } from "@/lib/enrichment";
+import { parseTimeRange } from "@/lib/lastfm";
+import {
+  isPartyWeighting,
+  locateInParty,
+  MAX_PARTY_USERS,
+  parsePartyUsers,
+  partyPoolSize,
+} from "@/lib/party";
+import { loadScrobble } from "@/lib/scrobbles";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const users = parsePartyUsers(searchParams.get("users") ?? "");
+    const counts = (searchParams.get("counts") ?? "").split(",").map(Number);
+    const n = Number(searchParams.get("n"));
+    const weighting = searchParams.get("weighting") ?? "scrobbles";
+
+    if (users.length < 2 || users.length > MAX_PARTY_USERS) {
+      return apiError({
+        error: `Party spins take 2 to ${MAX_PARTY_USERS} usernames`,
+        status: 400,
+      });
+    }
+    if (
+      counts.length !== users.length ||
+      counts.some((c) => !Number.isInteger(c) || c < 0)
+    ) {
+      return apiError({ error: "Invalid 'counts': one per user", status: 400 });
+    }
+    if (!isPartyWeighting(weighting)) {
+      return apiError({ error: "Invalid 'weighting' value", status: 400 });
+    }
+
+    const located = Number.isInteger(n)
+      ? locateInParty(n, counts, weighting)
+      : null;
+    if (!located) {
+      return apiError({ error: "Invalid 'n' value", status: 400 });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const user = users[located.index];
+    const result = await loadScrobble(
+      user,
+      located.n,
+      counts[located.index],
+      range,
+      enrichment
+    );
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    return NextResponse.json(
+      {
+        ...result,
+        // The reels show the virtual index; `party.n` is the user's own.
+        n,
+        total: partyPoolSize(counts, weighting),
+        party: { user, index: located.index, n: result.n },
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
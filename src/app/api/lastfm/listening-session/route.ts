@@ -0,0 +1,85 @@
+/**
+ * GET /api/lastfm/listening-session
+ * Query params: user, uts, from?, to?, gap?
+ *
+ * The listening session around the scrobble at `uts` (unix seconds): the
+ * run of scrobbles with no silence longer than `gap` seconds (default 30
+ * minutes), with its tracks, duration and dominant artist/album. Also
+ * returns every session of the `from`/`to` window, which must contain
+ * `uts` and span at most two days (default: 12 hours either side), for
+ * the page's timeline. See listeningSession.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { withCacheStatus } from "@/lib/cache";
+import { parseTimeRange } from "@/lib/lastfm";
+import {
+  DEFAULT_SESSION_GAP_S,
+  loadSessionWindow,
+} from "@/lib/listeningSession";
+
+const HALF_DAY_S = 12 * 60 * 60;
+const MAX_WINDOW_S = 4 * HALF_DAY_S;
+// A minute to six hours of silence
+const MIN_GAP_S = 60;
+const MAX_GAP_S = HALF_DAY_S / 2;
+
+export const GET = withCacheStatus(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const utsParam = searchParams.get("uts");
+    if (!user || !utsParam) {
+      return apiError({
+        error: "Missing required parameters: user, uts",
+        status: 400,
+      });
+    }
+    const uts = Number(utsParam);
+    if (!Number.isInteger(uts) || uts < 0) {
+      return apiError({ error: "Invalid 'uts' value", status: 400 });
+    }
+
+    const gapS = Number(searchParams.get("gap") ?? DEFAULT_SESSION_GAP_S);
+    if (!Number.isInteger(gapS) || gapS < MIN_GAP_S || gapS > MAX_GAP_S) {
+      return apiError({
+        error: `'gap' must be ${MIN_GAP_S} to ${MAX_GAP_S} seconds`,
+        status: 400,
+      });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+    const window = {
+      from: range.from ?? uts - HALF_DAY_S,
+      to: range.to ?? uts + HALF_DAY_S,
+    };
+    if (
+      uts < window.from ||
+      uts > window.to ||
+      window.to - window.from > MAX_WINDOW_S
+    ) {
+      return apiError({
+        error: "'from'/'to' must contain 'uts' and span at most two days",
+        status: 400,
+      });
+    }
+
+    const result = await loadSessionWindow(user, uts, window, gapS);
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    return NextResponse.json(result, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+});
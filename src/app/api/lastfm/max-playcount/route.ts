@@ -1,91 +1,175 @@
 /**
  * @file This Next.js API route fetches a user's total track playcount from Last.fm.
  * It uses the user.getinfo method as an efficient way to get this statistic.
+ * When a `from`/`to` window is given it instead counts the scrobbles inside
+ * that window via user.getRecentTracks' `@attr.total`, and for the
+ * track/artist/album spin modes it counts the entries of the matching
+ * user.getTop* list (see spinModes' `pool`).
+ *
+ * Scrobble counts come from the local history index when the user has one,
+ * so they agree with what get-nth-song serves from it.
  *
  * It acts as a secure proxy to hide the LASTFM_API_KEY from the client.
+ * Last.fm failures answer with a stable `code` next to `error` (see
+ * lastfmClient).
+ * `X-Cache` / `X-Cache-Lookups` headers say how the cache served it.
  *
  * @endpoint GET /api/lastfm/max-playcount
  * @param {string} user - The Last.fm username.
- * @returns {object} A JSON object containing the user's max playcount or an error.
+ * @param {number} [from] - Optional window start (unix seconds).
+ * @param {number} [to] - Optional window end (unix seconds).
+ * @param {string} [mode] - Spin mode: scrobbles (default), tracks, artists, albums, gems.
+ * @returns {object} A JSON object containing the user's max playcount (and
+ * registration time when unbounded) or an error.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { recentPageTtl, TTL, withCacheStatus } from "@/lib/cache";
+import {
+  buildLastFmUrl,
+  hasTimeRange,
+  parseTimeRange,
+  readTopList,
+  topListUrl,
+} from "@/lib/lastfm";
+import { getLocalHistory } from "@/lib/historyStore";
+import { lastFmGet } from "@/lib/lastfmClient";
+import { isSpinMode, spinModeInfo } from "@/lib/spinModes";
+
+// The fields read from user.getinfo / user.getRecentTracks answers
+type CountResponse = {
+  user?: { playcount?: string; registered?: { unixtime?: string } };
+  recenttracks?: { "@attr"?: { total?: string } };
+};
 
-export async function GET(req: NextRequest) {
+export const GET = withCacheStatus(async (req: NextRequest) => {
   try {
     const { searchParams } = new URL(req.url);
 
     // --- 1. Validate Input Parameters ---
     const user = searchParams.get("user");
     if (!user) {
-      return NextResponse.json(
-        { error: "Missing required parameter: user" },
-        { status: 400 }
-      );
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
     }
 
-    // --- 2. Securely Access API Key ---
-    const apiKey = process.env.LASTFM_API_KEY;
-    if (!apiKey) {
-      console.error("LASTFM_API_KEY is not configured on the server.");
-      return NextResponse.json(
-        { error: "Server misconfigured: Missing API key" },
-        { status: 500 }
-      );
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
     }
+    const ranged = hasTimeRange(range);
 
-    // --- 3. Fetch Data from Last.fm API ---
-    const url = new URL("https://ws.audioscrobbler.com/2.0/");
-    url.searchParams.set("method", "user.getinfo");
-    url.searchParams.set("user", user);
-    url.searchParams.set("api_key", apiKey);
-    url.searchParams.set("format", "json");
-
-    const response = await fetch(url.toString(), {
-      next: { revalidate: 300 }, // Cache the response for 5 minutes
-    });
-
-    if (!response.ok) {
-      console.error(
-        `Last.fm API error: ${response.status} ${response.statusText}`
-      );
-      // If the user is not found, Last.fm returns a 404
-      if (response.status === 404) {
+    const mode = searchParams.get("mode") ?? "scrobbles";
+    if (!isSpinMode(mode)) {
+      return apiError({ error: "Invalid 'mode' value", status: 400 });
+    }
+    const { pool } = spinModeInfo(mode);
+    if (pool === "blend") {
+      return apiError({
+        error: "Blend spins span several users; count them via blend-count",
+        status: 400,
+      });
+    }
+    if (ranged && pool !== "recent") {
+      return apiError({
+        error: "Date ranges only apply to scrobble spins",
+        status: 400,
+      });
+    }
+
+    // --- 2. Prefer the local history index for scrobble counts ---
+    if (pool === "recent") {
+      const local = await getLocalHistory(user);
+      if (local) {
+        const maxPlaycount = local.count(range);
         return NextResponse.json(
-          { error: "Last.fm user not found" },
-          { status: 404 }
+          ranged
+            ? { maxPlaycount, ...range, source: "local" }
+            : { maxPlaycount, registered: local.firstUts, source: "local" },
+          // Changes whenever a sync lands; don't let a CDN pin it.
+          { headers: { "Cache-Control": "no-store" } }
         );
       }
-      return NextResponse.json(
-        { error: "Error fetching data from Last.fm API" },
-        { status: response.status }
-      );
     }
 
-    const data = await response.json();
+    // --- 3. Securely Access API Key ---
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    // --- 4. Fetch Data from Last.fm API ---
+    // A single-item page is enough: `@attr.total` counts the whole list.
+    const url =
+      pool !== "recent"
+        ? topListUrl(pool, user, apiKey, { limit: 1 })
+        : ranged
+        ? buildLastFmUrl("user.getRecentTracks", apiKey, {
+            user,
+            limit: 1,
+            from: range.from,
+            to: range.to,
+          })
+        : buildLastFmUrl("user.getinfo", apiKey, { user });
+
+    const result = await lastFmGet<CountResponse>(
+      url,
+      pool !== "recent"
+        ? TTL.topList
+        : ranged
+        ? recentPageTtl(range)
+        : TTL.userInfo
+    );
+    if ("error" in result) {
+      // Stable `code`s (user_not_found, private_profile, rate_limited…)
+      return apiError(result);
+    }
+    const { data } = result;
 
     // Safely access the playcount, which Last.fm provides as a string.
-    const playcountString = data?.user?.playcount;
+    const playcountString =
+      pool !== "recent"
+        ? readTopList(pool, data).total
+        : ranged
+        ? data.recenttracks?.["@attr"]?.total
+        : data.user?.playcount;
 
     if (playcountString === undefined || playcountString === null) {
-      return NextResponse.json(
-        { error: "Could not find playcount for the specified user." },
-        { status: 404 }
-      );
+      return apiError({
+        error: "Could not find playcount for the specified user.",
+        status: 404,
+      });
     }
 
     const maxPlaycount = Number(playcountString);
 
     if (isNaN(maxPlaycount)) {
-      return NextResponse.json(
-        { error: "Invalid playcount format received from Last.fm" },
-        { status: 500 }
-      );
+      return apiError({
+        error: "Invalid playcount format received from Last.fm",
+        status: 500,
+      });
     }
 
-    // --- 4. Return the Max Playcount ---
+    const registeredString = data.user?.registered?.unixtime;
+    const registered =
+      registeredString != null && !isNaN(Number(registeredString))
+        ? Number(registeredString)
+        : null;
+
+    // --- 5. Return the Max Playcount ---
     return NextResponse.json(
-      { maxPlaycount },
+      pool !== "recent"
+        ? { maxPlaycount, mode }
+        : ranged
+        ? { maxPlaycount, ...range }
+        : { maxPlaycount, registered },
       {
         headers: {
           // Set browser and CDN caching policies
@@ -95,9 +179,6 @@ export async function GET(req: NextRequest) {
     );
   } catch (error) {
     console.error("An unexpected error occurred in the API route:", error);
-    return NextResponse.json(
-      { error: "Internal Server Error" },
-      { status: 500 }
-    );
+    return apiError({ error: "Internal Server Error", status: 500 });
   }
-}
+});
@@ -0,0 +1,145 @@
+/**
+ * GET /api/lastfm/party-playcount
+ * Query params: users (comma-separated), weighting?, from?, to?
+ *
+ * Party-mode counterpart of max-playcount: counts every participant's
+ * scrobbles (inside `from`/`to` when given) and returns them with their
+ * avatars, plus `maxPlaycount`, the size of the virtual pool a party spin
+ * indexes into under `weighting` (see party.ts).
+ *
+ * Counts come from a participant's local history index when they have one,
+ * so they agree with what get-party-song serves.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { recentPageTtl } from "@/lib/cache";
+import { getLocalHistory } from "@/lib/historyStore";
+import {
+  buildLastFmUrl,
+  fetchUserInfo,
+  hasTimeRange,
+  parseTimeRange,
+  readRecentTracks,
+  TimeRange,
+} from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+import {
+  isPartyWeighting,
+  MAX_PARTY_USERS,
+  Participant,
+  parsePartyUsers,
+  partyPoolSize,
+} from "@/lib/party";
+
+async function countParticipant(
+  user: string,
+  apiKey: string,
+  range: TimeRange
+): Promise<
+  | { participant: Participant; local: boolean }
+  | { error: string; status: number }
+> {
+  const info = await fetchUserInfo(apiKey, user);
+  if ("error" in info) return info;
+
+  const local = await getLocalHistory(user);
+  let playcount = info.playcount;
+  if (local) {
+    playcount = local.count(range);
+  } else if (hasTimeRange(range)) {
+    // A single-item page is enough: `@attr.total` counts the whole window.
+    const result = await lastFmGet(
+      buildLastFmUrl("user.getRecentTracks", apiKey, {
+        user,
+        limit: 1,
+        from: range.from,
+        to: range.to,
+      }),
+      recentPageTtl(range)
+    );
+    if ("error" in result) return result;
+    playcount = readRecentTracks(result.data).total ?? 0;
+  }
+
+  return {
+    participant: {
+      user: info.name,
+      playcount,
+      avatar: info.avatar,
+      registered: local?.firstUts ?? info.registered,
+    },
+    local: local !== null,
+  };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const users = parsePartyUsers(searchParams.get("users") ?? "");
+    if (users.length < 2) {
+      return apiError({
+        error: "Party spins need at least two usernames",
+        status: 400,
+      });
+    }
+    if (users.length > MAX_PARTY_USERS) {
+      return apiError({
+        error: `At most ${MAX_PARTY_USERS} usernames per party`,
+        status: 400,
+      });
+    }
+
+    const weighting = searchParams.get("weighting") ?? "scrobbles";
+    if (!isPartyWeighting(weighting)) {
+      return apiError({ error: "Invalid 'weighting' value", status: 400 });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const counted = await Promise.all(
+      users.map((user) => countParticipant(user, apiKey, range))
+    );
+    const failed = counted.find((c) => "error" in c);
+    if (failed && "error" in failed) {
+      return apiError(failed);
+    }
+    const ok = counted as Array<{ participant: Participant; local: boolean }>;
+    const participants = ok.map((c) => c.participant);
+
+    return NextResponse.json(
+      {
+        maxPlaycount: partyPoolSize(
+          participants.map((p) => p.playcount),
+          weighting
+        ),
+        weighting,
+        participants,
+      },
+      {
+        headers: {
+          // Local counts change whenever a sync lands; don't let a CDN pin them.
+          "Cache-Control": ok.some((c) => c.local)
+            ? "no-store"
+            : "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
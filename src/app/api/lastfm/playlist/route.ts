@@ -0,0 +1,74 @@
+/**
+ * GET /api/lastfm/playlist
+ * Query params: user, count, maxPlaycount, from?, to?, market?
+ *
+ * `count` scrobble spins in one request (at most MAX_PLAYLIST_SPINS):
+ * random indices into the scrobbles inside `from`/`to`, counted and looked
+ * up as in get-nth-song, without repeat tracks and with each track's
+ * Spotify match (see playlistSpins.ts). `market` sets the Spotify
+ * storefront. Responds with `{ items, total, source }`; items are in spin
+ * order and may be fewer than `count` when the window runs out of tracks.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { parseEnrichmentParams } from "@/lib/enrichment";
+import { parseTimeRange } from "@/lib/lastfm";
+import { MAX_PLAYLIST_SPINS } from "@/lib/playlist";
+import { spinPlaylist } from "@/lib/playlistSpins";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const count = Number(searchParams.get("count"));
+    const maxPlaycount = Number(searchParams.get("maxPlaycount"));
+
+    if (
+      !user ||
+      !Number.isInteger(count) ||
+      !Number.isInteger(maxPlaycount) ||
+      maxPlaycount < 1
+    ) {
+      return apiError({
+        error: "Missing or invalid parameters: user, count, maxPlaycount",
+        status: 400,
+      });
+    }
+    if (count < 1 || count > MAX_PLAYLIST_SPINS) {
+      return apiError({
+        error: `'count' must be between 1 and ${MAX_PLAYLIST_SPINS}`,
+        status: 400,
+      });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    const result = await spinPlaylist(
+      user,
+      count,
+      maxPlaycount,
+      range,
+      enrichment.market
+    );
+    if ("error" in result) {
+      return apiError(result);
+    }
+
+    // Every request is a fresh set of spins
+    return NextResponse.json(result, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
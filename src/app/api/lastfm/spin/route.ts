@@ -0,0 +1,105 @@
+/**
+ * GET /api/lastfm/spin
+ * Query params: user, seed?, step?, pool?, from?, to?, providers?, market?
+ *
+ * A scrobble spin whose index the server picks: unlike get-nth-song, the
+ * caller supplies no `n` or `maxPlaycount`. The index is step `step`
+ * (default 0) of the permutation `seed` defines over the scrobbles inside
+ * `from`/`to` (see seededSpin.ts), so the same seed, step and pool always
+ * land on the same scrobble, and a session that keeps its seed and counts
+ * `step` up never repeats one.
+ *
+ * Without `seed` the server draws one. `pool` pins the number of scrobbles
+ * the permutation covers, for replays and sessions that should not shift
+ * as new scrobbles arrive; it can't exceed the current count. Without it
+ * the current count is used.
+ *
+ * Responds like get-nth-song plus `seed`, `step` and `pool`, which replay
+ * the spin exactly.
+ */
+
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { withCacheStatus } from "@/lib/cache";
+import { parseEnrichmentParams } from "@/lib/enrichment";
+import { parseTimeRange } from "@/lib/lastfm";
+import { countScrobbles, loadScrobble } from "@/lib/scrobbles";
+import { isSpinSeed, seededIndex } from "@/lib/seededSpin";
+
+export const GET = withCacheStatus(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    if (!user) {
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
+    }
+
+    const seedParam = searchParams.get("seed");
+    if (seedParam !== null && !isSpinSeed(seedParam)) {
+      return apiError({
+        error: "Invalid 'seed' value (up to 64 letters, digits, _.:-)",
+        status: 400,
+      });
+    }
+    const step = Number(searchParams.get("step") ?? 0);
+    const poolParam = searchParams.get("pool");
+    const pinnedPool = poolParam === null ? null : Number(poolParam);
+    if (
+      !Number.isSafeInteger(step) ||
+      step < 0 ||
+      (pinnedPool !== null &&
+        (!Number.isSafeInteger(pinnedPool) || pinnedPool < 1))
+    ) {
+      return apiError({ error: "Invalid 'step' or 'pool' value", status: 400 });
+    }
+
+    const range = parseTimeRange(searchParams);
+    if ("error" in range) {
+      return apiError({ error: range.error, status: 400 });
+    }
+
+    const enrichment = parseEnrichmentParams(searchParams);
+    if ("error" in enrichment) {
+      return apiError({ error: enrichment.error, status: 400 });
+    }
+
+    // --- Count the pool and pick the index ---
+    const count = await countScrobbles(user, range);
+    if ("error" in count) return apiError(count);
+    if (count.total === 0) {
+      return apiError({ error: "No data", status: 404 });
+    }
+    if (pinnedPool !== null && pinnedPool > count.total) {
+      return apiError({
+        error: `'pool' exceeds the ${count.total} scrobbles in range`,
+        status: 400,
+      });
+    }
+    const pool = pinnedPool ?? count.total;
+    const seed = seedParam ?? randomBytes(6).toString("base64url");
+    const n = seededIndex(seed, pool, step);
+
+    const result = await loadScrobble(user, n, count.total, range, enrichment);
+    if ("error" in result) return apiError(result);
+
+    return NextResponse.json(
+      { ...result, seed, step, pool },
+      {
+        headers: {
+          // A drawn seed makes every response different
+          "Cache-Control":
+            seedParam === null
+              ? "no-store"
+              : "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+});
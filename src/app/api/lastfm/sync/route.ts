@@ -0,0 +1,65 @@
+/**
+ * @file Local scrobble history index: sync trigger and status.
+ *
+ * @endpoint GET /api/lastfm/sync?user=… - Current sync status (poll this).
+ * @endpoint POST /api/lastfm/sync?user=… - Start (or resume) the full import,
+ * or an incremental sync of scrobbles newer than the last stored one.
+ * @returns {object} SyncStatus: state, pagesDone, totalPages, count, lastUts,
+ * lastSyncedAt.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { getSyncStatus, startSync } from "@/lib/historyStore";
+
+function readUser(req: NextRequest) {
+  return new URL(req.url).searchParams.get("user");
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = readUser(req);
+    if (!user) {
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
+    }
+
+    return NextResponse.json(await getSyncStatus(user), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = readUser(req);
+    if (!user) {
+      return apiError({
+        error: "Missing required parameter: user",
+        status: 400,
+      });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    return NextResponse.json(await startSync(user, apiKey), {
+      status: 202,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/lastfm/track-stats
+ * Query params: user, artist, track, uts
+ *
+ * Stats for the card's expandable panel around the scrobble of `track`
+ * at `uts` (unix seconds): the user's and global plays and listeners of
+ * the track and artist, the user's first and latest play of the track,
+ * and the plays right before and after the scrobble. One response
+ * aggregating track.getInfo, artist.getInfo, user.getRecentTracks and
+ * user.getTrackScrobbles (see trackStats.ts); parts Last.fm can't answer
+ * come back null or empty.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { withCacheStatus } from "@/lib/cache";
+import { loadTrackStats } from "@/lib/trackStats";
+
+export const GET = withCacheStatus(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const user = searchParams.get("user");
+    const artist = searchParams.get("artist");
+    const track = searchParams.get("track");
+    const uts = Number(searchParams.get("uts"));
+
+    if (!user || !artist || !track || !searchParams.get("uts")) {
+      return apiError({
+        error: "Missing required parameters: user, artist, track, uts",
+        status: 400,
+      });
+    }
+    if (!Number.isInteger(uts) || uts < 0) {
+      return apiError({ error: "Invalid 'uts' value", status: 400 });
+    }
+
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return apiError({
+        error: "Server misconfigured: Missing API key",
+        status: 500,
+      });
+    }
+
+    const stats = await loadTrackStats(apiKey, user, artist, track, uts);
+    return NextResponse.json(stats, {
+      headers: {
+        // Play counts move as the user listens
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    });
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+});
@@ -0,0 +1,155 @@
+/**
+ * GET /api/og
+ * Query params: user, n, from?, to?
+ *
+ * 1200×630 social card for a spin permalink: the rolled number on slot
+ * reels, album art, artist/title and scrobble date. Links that don't
+ * resolve still get a card (the generic one) so unfurls never break.
+ */
+
+import { ImageResponse } from "next/og";
+import { NextRequest } from "next/server";
+import { parsePermalink } from "@/lib/permalinkState";
+import { DEFAULT_REEL_COUNT, reelCountFor, toDigits } from "@/lib/reels";
+import { findScrobble } from "@/lib/scrobbles";
+
+const SIZE = { width: 1200, height: 630 };
+
+/** The rolled index on as many reels as the app showed (`total`'s digits). */
+function Reels({ n, total }: { n: number | null; total?: number }) {
+  const digits =
+    n === null
+      ? Array(DEFAULT_REEL_COUNT).fill(0)
+      : toDigits(n, reelCountFor(Math.max(total ?? 0, n)));
+  return (
+    <div style={{ display: "flex", gap: 14 }}>
+      {digits.map((d, i) => (
+        <div
+          key={i}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            width: 84,
+            height: 116,
+            borderRadius: 12,
+            background: "#171717",
+            border: "2px solid #262626",
+            color: "#fff",
+            fontSize: 80,
+            fontWeight: 700,
+          }}
+        >
+          {d}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Card({
+  n,
+  total,
+  user,
+  children,
+}: {
+  n: number | null;
+  total?: number;
+  user: string | null;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        width: "100%",
+        height: "100%",
+        padding: 64,
+        background: "#000",
+        color: "#f5f5f5",
+        fontFamily: "sans-serif",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "baseline", gap: 20 }}>
+        <div style={{ fontSize: 56, fontWeight: 800 }}>slotfm</div>
+        {user && (
+          <div style={{ fontSize: 32, color: "#a3a3a3" }}>{user} rolled</div>
+        )}
+      </div>
+      <Reels n={n} total={total} />
+      {children ?? (
+        <div style={{ fontSize: 32, color: "#a3a3a3" }}>
+          Spin a random track from your Last.fm history
+        </div>
+      )}
+    </div>
+  );
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const user = searchParams.get("user");
+  const nParam = searchParams.get("n");
+
+  const parsed = user && nParam ? parsePermalink(nParam, searchParams) : null;
+  if (!user || !parsed || "error" in parsed) {
+    return new ImageResponse(<Card n={null} user={null} />, SIZE);
+  }
+
+  try {
+    const found = await findScrobble(user, parsed.n, null, parsed.range);
+    if ("error" in found) {
+      return new ImageResponse(<Card n={parsed.n} user={user} />, SIZE);
+    }
+    const { track } = found;
+    const art =
+      track.image.find((i) => i.size === "extralarge")?.["#text"] ||
+      track.image.at(-1)?.["#text"];
+
+    return new ImageResponse(
+      (
+        <Card n={parsed.n} total={found.total} user={user}>
+          <div style={{ display: "flex", alignItems: "center", gap: 32 }}>
+            {art && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={art}
+                alt=""
+                width={160}
+                height={160}
+                style={{ borderRadius: 12 }}
+              />
+            )}
+            <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+              <div style={{ fontSize: 44, fontWeight: 700 }}>
+                {`${track.artist["#text"]} - ${track.name}`}
+              </div>
+              {track.album["#text"] && (
+                <div style={{ fontSize: 30, color: "#a3a3a3" }}>
+                  {track.album["#text"]}
+                </div>
+              )}
+              {track.date?.["#text"] && (
+                <div style={{ fontSize: 26, color: "#737373" }}>
+                  {track.date["#text"]}
+                  {parsed.resolved ? ` · ${parsed.resolved.label}` : ""}
+                </div>
+              )}
+            </div>
+          </div>
+        </Card>
+      ),
+      {
+        ...SIZE,
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return new ImageResponse(<Card n={parsed.n} user={user} />, SIZE);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/spotify/callback
+ * Query params: code, state (or error, when the user declined)
+ *
+ * Spotify's redirect target after login: trades the code for tokens,
+ * stores the session cookie and returns to the page the login started on.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { completeLogin, sameSiteReturnTo } from "@/lib/spotifyAuth";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+
+    // Declined on Spotify's side: nothing to store
+    if (searchParams.get("error")) {
+      return NextResponse.redirect(new URL("/", req.url));
+    }
+    if (!code || !state) {
+      return apiError({
+        error: "Missing required parameters: code, state",
+        status: 400,
+      });
+    }
+
+    const login = await completeLogin(req, code, state);
+    if ("error" in login) {
+      return apiError(login);
+    }
+    const res = NextResponse.redirect(
+      new URL(sameSiteReturnTo(login.returnTo, req), req.url)
+    );
+    login.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
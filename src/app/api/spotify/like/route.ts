@@ -0,0 +1,39 @@
+/**
+ * POST /api/spotify/like
+ * Body: { id } (a Spotify track id, as resolved by get-nth-song)
+ *
+ * Saves the track to the logged-in user's Liked Songs.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { isSpotifyId, spotifyUserApi, userSession } from "@/lib/spotifyAuth";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!isSpotifyId(body?.id)) {
+      return apiError({
+        error: "Missing or invalid Spotify track id",
+        status: 400,
+      });
+    }
+
+    const auth = await userSession(req);
+    if ("error" in auth) {
+      return apiError(auth);
+    }
+
+    const result = await spotifyUserApi(auth.session, "/me/tracks", {
+      method: "PUT",
+      body: { ids: [body.id] },
+    });
+    const res =
+      "error" in result ? apiError(result) : NextResponse.json({ saved: true });
+    auth.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * GET /api/spotify/login
+ * Query params: returnTo? (a path on this site; defaults to /)
+ *
+ * Sends the browser to Spotify's consent page (PKCE; see spotifyAuth.ts).
+ * Spotify then redirects to /api/spotify/callback, which comes back to
+ * `returnTo`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { beginLogin, sameSiteReturnTo } from "@/lib/spotifyAuth";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const returnTo = sameSiteReturnTo(searchParams.get("returnTo"), req);
+
+    const login = beginLogin(req, returnTo);
+    if ("error" in login) {
+      return apiError(login);
+    }
+    const res = NextResponse.redirect(login.url);
+    login.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * POST /api/spotify/playlist
+ * Body: { name, ids } (Spotify track ids, in playlist order)
+ *
+ * Creates a private playlist on the logged-in user's account holding the
+ * given tracks, e.g. a playlist spin's Spotify matches. Responds with the
+ * playlist's `{ id, url }`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { isSpotifyId, spotifyUserApi, userSession } from "@/lib/spotifyAuth";
+
+// Spotify adds at most this many tracks per request
+const TRACKS_PER_REQUEST = 100;
+const MAX_TRACKS = 500;
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    const ids: unknown[] = Array.isArray(body?.ids) ? body.ids : [];
+    if (!name || ids.length === 0 || !ids.every(isSpotifyId)) {
+      return apiError({
+        error: "Give a playlist name and Spotify track ids",
+        status: 400,
+      });
+    }
+    if (ids.length > MAX_TRACKS) {
+      return apiError({
+        error: `At most ${MAX_TRACKS} tracks per playlist`,
+        status: 400,
+      });
+    }
+
+    const auth = await userSession(req);
+    if ("error" in auth) {
+      return apiError(auth);
+    }
+    const { session } = auth;
+
+    const fail = (failure: { error: string; status: number }) => {
+      const res = apiError(failure);
+      auth.remember(res);
+      return res;
+    };
+
+    const me = await spotifyUserApi<{ id: string }>(session, "/me");
+    if ("error" in me) return fail(me);
+    if (!me.data?.id)
+      return fail({ error: "Error talking to Spotify", status: 502 });
+
+    const created = await spotifyUserApi<{
+      id: string;
+      external_urls: { spotify: string };
+    }>(session, `/users/${encodeURIComponent(me.data.id)}/playlists`, {
+      method: "POST",
+      body: {
+        name: name.slice(0, 100),
+        public: false,
+        description: "Spun on slotfm",
+      },
+    });
+    if ("error" in created) return fail(created);
+    if (!created.data)
+      return fail({ error: "Error talking to Spotify", status: 502 });
+    const playlist = created.data;
+
+    for (let i = 0; i < ids.length; i += TRACKS_PER_REQUEST) {
+      const uris = ids
+        .slice(i, i + TRACKS_PER_REQUEST)
+        .map((id) => `spotify:track:${id}`);
+      const added = await spotifyUserApi(
+        session,
+        `/playlists/${playlist.id}/tracks`,
+        { method: "POST", body: { uris } }
+      );
+      if ("error" in added) return fail(added);
+    }
+
+    const res = NextResponse.json({
+      id: playlist.id,
+      url:
+        playlist.external_urls?.spotify ??
+        `https://open.spotify.com/playlist/${playlist.id}`,
+    });
+    auth.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * POST /api/spotify/queue
+ * Body: { id } (a Spotify track id, as resolved by get-nth-song)
+ *
+ * Adds the track to the queue of the user's active Spotify device; 404
+ * when no device is playing.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { isSpotifyId, spotifyUserApi, userSession } from "@/lib/spotifyAuth";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!isSpotifyId(body?.id)) {
+      return apiError({
+        error: "Missing or invalid Spotify track id",
+        status: 400,
+      });
+    }
+
+    const auth = await userSession(req);
+    if ("error" in auth) {
+      return apiError(auth);
+    }
+
+    const uri = encodeURIComponent(`spotify:track:${body.id}`);
+    const result = await spotifyUserApi(
+      auth.session,
+      `/me/player/queue?uri=${uri}`,
+      { method: "POST" }
+    );
+    const res =
+      "error" in result
+        ? apiError(result)
+        : NextResponse.json({ queued: true });
+    auth.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/spotify/session
+ *   `{ available, connected }`: whether this server can log in to Spotify
+ *   at all, and whether this browser has. Refreshes a stale access token.
+ *
+ * DELETE /api/spotify/session
+ *   Forgets this browser's Spotify login.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiError";
+import { SESSION_COOKIE, userSession } from "@/lib/spotifyAuth";
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await userSession(req);
+    const res = NextResponse.json(
+      "error" in auth
+        ? { available: auth.status !== 500, connected: false }
+        : { available: true, connected: true },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+    if (!("error" in auth)) auth.remember(res);
+    return res;
+  } catch (error) {
+    console.error("An unexpected error occurred in the API route:", error);
+    return apiError({ error: "Internal Server Error", status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ connected: false });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
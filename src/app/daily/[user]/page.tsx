@@ -0,0 +1,53 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import DailySpin from "@/components/DailySpin";
+import { dailyDate, dailyRange } from "@/lib/daily";
+import { loadDailySpin } from "@/lib/dailySpin";
+import {
+  DEFAULT_PROVIDERS,
+  marketFromLocale,
+} from "@/lib/enrichment/providers";
+import { permalinkPath } from "@/lib/permalink";
+import { isLastFmUsername } from "@/lib/validation";
+
+type Props = { params: Promise<{ user: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { user } = await params;
+  return { title: `${user}'s track of the day · SlotFM` };
+}
+
+/**
+ * `user`'s track of the day (see daily.ts), rendered on the server so the
+ * pick shows on first load. Today is the UTC date.
+ */
+export default async function DailyPage({ params }: Props) {
+  const { user } = await params;
+  const date = dailyDate();
+  if (!isLastFmUsername(user)) {
+    return (
+      <DailySpin
+        user={user}
+        date={date}
+        initial={{ error: "Invalid Last.fm username" }}
+      />
+    );
+  }
+
+  const locale = (await headers()).get("accept-language")?.split(",")[0];
+  const result = await loadDailySpin(user, date, {
+    providers: DEFAULT_PROVIDERS,
+    market: marketFromLocale(locale),
+  });
+  const initial =
+    "error" in result
+      ? { error: result.error }
+      : {
+          ...result,
+          permalink: permalinkPath(user, result.n, {
+            from: 0,
+            to: dailyRange(date).to,
+          }),
+        };
+  return <DailySpin user={user} date={date} initial={initial} />;
+}
@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import EmbedSpin from "@/components/EmbedSpin";
+import { parseEmbedOptions } from "@/lib/embed";
+import { toSearchParams } from "@/lib/permalink";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({
+  searchParams,
+}: Props): Promise<Metadata> {
+  const options = parseEmbedOptions(toSearchParams(await searchParams));
+  return {
+    title:
+      "error" in options ? "SlotFM" : `${options.user}'s SlotFM · Spin widget`,
+    robots: { index: false },
+  };
+}
+
+/**
+ * The spin widget for other sites to frame (see embed.ts for its options
+ * and messages). next.config.ts lets any page frame this route unless
+ * SLOTFM_EMBED_ANCESTORS narrows it.
+ */
+export default async function EmbedPage({ searchParams }: Props) {
+  const options = parseEmbedOptions(toSearchParams(await searchParams));
+  if ("error" in options) {
+    return (
+      <main className="flex items-center justify-center h-screen px-3 text-sm text-neutral-500">
+        {options.error}
+      </main>
+    );
+  }
+  return <EmbedSpin options={options} />;
+}
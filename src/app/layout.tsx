@@ -14,6 +14,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Absolute base for per-spin social cards; Next falls back to the Vercel
+  // production URL (or localhost) when unset.
+  metadataBase: process.env.SITE_URL
+    ? new URL(process.env.SITE_URL)
+    : undefined,
   title: "SlotFM",
   description: "Spin to discover a random scrobble from your Last.fm history.",
 };
@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import SlotDemo from "@/components/SlotMachine";
+import { toSearchParams } from "@/lib/permalink";
+import { loadPermalinkState, permalinkMetadata } from "@/lib/permalinkState";
+
+type Props = {
+  params: Promise<{ user: string; n: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({
+  params,
+  searchParams,
+}: Props): Promise<Metadata> {
+  const { user, n } = await params;
+  return permalinkMetadata(user, n, toSearchParams(await searchParams));
+}
+
+/**
+ * Permalink to one spin: scrobble `n` (from the oldest) of `user`, inside
+ * `?from=&to=` when the spin was date-ranged. Rendered on the server.
+ */
+export default async function SpinPermalink({ params, searchParams }: Props) {
+  const { user, n } = await params;
+  const initial = await loadPermalinkState(
+    user,
+    n,
+    toSearchParams(await searchParams)
+  );
+  return <SlotDemo initial={initial} />;
+}
@@ -0,0 +1,34 @@
+"use client";
+import { useEffect, useState } from "react";
+
+/**
+ * Copies the absolute URL of a spin permalink, confirming for a moment.
+ */
+export default function CopyLinkButton({ path }: { path: string }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = window.setTimeout(() => setCopied(false), 1500);
+    return () => window.clearTimeout(t);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.origin + path);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked (insecure context or denied); nothing to undo
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className="mt-2 text-xs text-neutral-400 hover:text-white underline transition-colors cursor-pointer"
+    >
+      {copied ? "Copied!" : "Copy link"}
+    </button>
+  );
+}
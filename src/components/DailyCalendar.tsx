@@ -0,0 +1,142 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  DAILY_CALENDAR_DAYS,
+  dailyIndex,
+  dailyRange,
+  shiftDate,
+} from "@/lib/daily";
+import { permalinkPath } from "@/lib/permalink";
+import { readStored, writeStored } from "@/lib/storage";
+
+/** What the calendar keeps of a past day's pick. */
+type DailyPick =
+  | { n: number; artist: string; name: string; permalink: string }
+  | { error: string };
+
+// Past picks never change, so each is fetched once per browser
+const picksKey = (user: string) => `slotfm:dailyPicks:${user.toLowerCase()}`;
+const MAX_STORED_PICKS = 120;
+
+/**
+ * Works a past day's pick out again the way the daily route does: count
+ * the scrobbles before that day, derive the index, fetch it by index.
+ */
+async function fetchPastPick(user: string, date: string): Promise<DailyPick> {
+  const { to } = dailyRange(date);
+  try {
+    const countRes = await fetch(
+      `/api/lastfm/max-playcount?${new URLSearchParams({
+        user,
+        to: String(to),
+      })}`
+    );
+    const count = await countRes.json();
+    if (!countRes.ok) return { error: count?.error ?? "Error fetching pick" };
+    if (!count.maxPlaycount) return { error: "No scrobbles yet" };
+
+    const n = dailyIndex(user, date, count.maxPlaycount);
+    const res = await fetch(
+      `/api/lastfm/get-nth-song?${new URLSearchParams({
+        user,
+        n: String(n),
+        maxPlaycount: String(count.maxPlaycount),
+        to: String(to),
+        providers: "spotify",
+      })}`
+    );
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Error fetching pick" };
+    return {
+      n,
+      artist: data.track.artist["#text"],
+      name: data.track.name,
+      permalink: permalinkPath(user, n, { from: 0, to }),
+    };
+  } catch {
+    return { error: "Error fetching pick" };
+  }
+}
+
+/**
+ * The daily picks of the days before `today`, newest first, a week at a
+ * time. Days load one after another to go easy on the rate limits.
+ */
+export default function DailyCalendar({
+  user,
+  today,
+}: {
+  user: string;
+  today: string;
+}) {
+  const [days, setDays] = useState(DAILY_CALENDAR_DAYS);
+  const [picks, setPicks] = useState<Record<string, DailyPick>>({});
+
+  useEffect(() => {
+    setPicks(readStored<Record<string, DailyPick>>(picksKey(user), {}));
+  }, [user]);
+
+  const dates = Array.from({ length: days }, (_, i) =>
+    shiftDate(today, -(i + 1))
+  );
+  const next = dates.find((d) => !picks[d]);
+
+  useEffect(() => {
+    if (!next) return;
+    let cancelled = false;
+    fetchPastPick(user, next).then((pick) => {
+      if (cancelled) return;
+      setPicks((prev) => {
+        const updated = { ...prev, [next]: pick };
+        // Errors are worth retrying on the next visit; picks aren't
+        const kept = Object.entries(updated)
+          .filter(([, p]) => !("error" in p))
+          .sort(([a], [b]) => b.localeCompare(a))
+          .slice(0, MAX_STORED_PICKS);
+        writeStored(picksKey(user), Object.fromEntries(kept));
+        return updated;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, next]);
+
+  return (
+    <div className="w-full max-w-md mt-8 text-sm">
+      <p className="mb-2 text-xs text-neutral-500">Earlier picks</p>
+      <ol className="border border-neutral-800 rounded-md">
+        {dates.map((date) => {
+          const pick = picks[date];
+          return (
+            <li
+              key={date}
+              className="flex gap-3 px-3 py-1.5 border-b border-neutral-900"
+            >
+              <span className="w-20 shrink-0 text-xs text-neutral-500 leading-5">
+                {date}
+              </span>
+              {!pick ? (
+                <span className="text-neutral-600">…</span>
+              ) : "error" in pick ? (
+                <span className="text-neutral-600">{pick.error}</span>
+              ) : (
+                <a href={pick.permalink} className="truncate hover:underline">
+                  {pick.artist} - {pick.name}
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <button
+        type="button"
+        onClick={() => setDays((d) => d + DAILY_CALENDAR_DAYS)}
+        disabled={next !== undefined}
+        className="mt-2 text-xs text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+      >
+        Earlier
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+import Image from "next/image";
+import Link from "next/link";
+import CopyLinkButton from "@/components/CopyLinkButton";
+import DailyCalendar from "@/components/DailyCalendar";
+import ServiceLinks from "@/components/ServiceLinks";
+import { useDailyStreak } from "@/lib/dailyStreak";
+import type { Track } from "@/lib/track";
+
+/**
+ * A user's track of the day (loaded on the server, see app/daily), their
+ * streak of days in a row and the picks of the days before.
+ */
+export default function DailySpin({
+  user,
+  date,
+  initial,
+}: {
+  user: string;
+  date: string;
+  initial: Track | { error: string };
+}) {
+  const streak = useDailyStreak(user);
+  const pick = "error" in initial ? null : initial;
+
+  return (
+    <main className="flex flex-col items-center min-h-screen px-4 py-16 text-white">
+      <h1 className="text-3xl font-extrabold tracking-tight">
+        Track of the day
+      </h1>
+      <p className="mt-1 text-sm text-neutral-500">
+        {user} · {date}
+      </p>
+      {streak.current > 0 && (
+        <p className="mt-1 text-xs text-neutral-500">
+          {streak.current === 1 ? "Day 1" : `${streak.current} days in a row`}
+          {streak.best > streak.current && ` · best ${streak.best}`}
+        </p>
+      )}
+
+      {"error" in initial ? (
+        <p className="mt-8 text-neutral-400">{initial.error}</p>
+      ) : (
+        <div className="flex flex-col items-center gap-3 mt-8 text-center">
+          {pick?.track?.image?.[2]?.["#text"] && (
+            <Image
+              src={pick.track.image[2]["#text"]}
+              alt="Album Art"
+              width={96}
+              height={96}
+              className="rounded-md shadow-lg object-cover"
+            />
+          )}
+          <div>
+            <a
+              href={pick?.spotify?.url ?? pick?.track?.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-bold"
+            >
+              {pick?.track?.artist["#text"]} - {pick?.track?.name}
+            </a>
+            {pick?.track?.album["#text"] && (
+              <p className="text-sm text-neutral-400">
+                {pick.track.album["#text"]}
+              </p>
+            )}
+            {pick?.track?.date?.["#text"] && (
+              <p className="text-xs text-neutral-500 mt-1">
+                Scrobble #{pick.n?.toLocaleString("en-US")} ·{" "}
+                {pick.track.date["#text"]}
+              </p>
+            )}
+          </div>
+          <ServiceLinks links={pick?.links} />
+          {pick?.permalink && <CopyLinkButton path={pick.permalink} />}
+        </div>
+      )}
+
+      <DailyCalendar user={user} today={date} />
+
+      <Link
+        href="/"
+        className="mt-8 text-xs text-neutral-500 underline hover:text-white"
+      >
+        Spin more on slotfm
+      </Link>
+    </main>
+  );
+}
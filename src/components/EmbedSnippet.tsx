@@ -0,0 +1,129 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_EMBED_OPTIONS,
+  EMBED_THEMES,
+  EmbedTheme,
+  embedPath,
+  embedSnippet,
+  MAX_EMBED_REELS,
+} from "@/lib/embed";
+
+/**
+ * Builds the iframe HTML that embeds `user`'s spin widget on another site
+ * (see app/embed), with its theme, reel count and autoplay, and copies it.
+ */
+export default function EmbedSnippet({ user }: { user: string }) {
+  const [open, setOpen] = useState(false);
+  const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_EMBED_OPTIONS.theme);
+  const [reels, setReels] = useState(DEFAULT_EMBED_OPTIONS.reels);
+  const [autoplay, setAutoplay] = useState(DEFAULT_EMBED_OPTIONS.autoplay);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = window.setTimeout(() => setCopied(false), 1500);
+    return () => window.clearTimeout(t);
+  }, [copied]);
+
+  const options = { user, theme, reels, autoplay };
+  const snippet = open ? embedSnippet(window.location.origin, options) : "";
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked (insecure context or denied); the text is selectable
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xs text-xs text-center">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="text-neutral-500 underline hover:text-white cursor-pointer"
+        aria-expanded={open}
+      >
+        {open ? "Hide embed" : "Embed on your site"}
+      </button>
+      {open && (
+        <div className="mt-2 flex flex-col gap-2 text-left text-neutral-400">
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-1">
+              Theme
+              <select
+                value={theme}
+                onChange={(e) => setTheme(e.target.value as EmbedTheme)}
+                className="bg-transparent border-b border-neutral-700 text-neutral-100 focus:outline-none focus:border-red-500"
+              >
+                {EMBED_THEMES.map((t) => (
+                  <option key={t} value={t} className="bg-neutral-900">
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Reels
+              <input
+                type="number"
+                min={1}
+                max={MAX_EMBED_REELS}
+                value={reels}
+                onChange={(e) =>
+                  setReels(
+                    Math.min(
+                      Math.max(Math.floor(Number(e.target.value)) || 1, 1),
+                      MAX_EMBED_REELS
+                    )
+                  )
+                }
+                className="w-8 bg-transparent border-b border-neutral-700 text-center text-neutral-100 focus:outline-none focus:border-red-500"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={autoplay}
+                onChange={(e) => setAutoplay(e.target.checked)}
+                className="accent-red-500"
+              />
+              Spin on load
+            </label>
+          </div>
+          <textarea
+            readOnly
+            value={snippet}
+            rows={4}
+            onFocus={(e) => e.target.select()}
+            className="w-full p-2 rounded bg-neutral-900 font-mono text-[11px] text-neutral-300 resize-none focus:outline-none"
+            aria-label="Embed code"
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={copy}
+              className="text-neutral-400 hover:text-white underline transition-colors cursor-pointer"
+            >
+              {copied ? "Copied!" : "Copy code"}
+            </button>
+            <a
+              href={embedPath(options)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-neutral-400 hover:text-white underline"
+            >
+              Preview
+            </a>
+          </div>
+          <p className="text-neutral-600">
+            Host pages can post {'{ type: "slotfm:spin" }'} to the frame and
+            listen for slotfm:result messages.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import SlotReel from "@/components/SlotReel";
+import TrackCard from "@/components/TrackCard";
+import {
+  EmbedEvent,
+  EmbedOptions,
+  EmbedResult,
+  isEmbedCommand,
+} from "@/lib/embed";
+import {
+  DEFAULT_PROVIDERS,
+  marketFromLocale,
+} from "@/lib/enrichment/providers";
+import { permalinkPath } from "@/lib/permalink";
+import { reelCountFor, toDigits } from "@/lib/reels";
+import type { Track } from "@/lib/track";
+
+/** The seeded run the widget is on; see the spin route. */
+type SeedSession = { seed: string; step: number; pool: number };
+
+function spinUrl(user: string, session: SeedSession | null) {
+  const params = new URLSearchParams({ user });
+  if (session) {
+    params.set("seed", session.seed);
+    params.set("step", String(session.step + 1));
+    params.set("pool", String(session.pool));
+  }
+  params.set("providers", DEFAULT_PROVIDERS.join(","));
+  params.set("market", marketFromLocale(navigator.language));
+  return `/api/lastfm/spin?${params.toString()}`;
+}
+
+function asResult(user: string, track: Track): EmbedResult {
+  return {
+    user,
+    artist: track.track?.artist["#text"] ?? "",
+    name: track.track?.name ?? "",
+    album: track.track?.album["#text"] ?? "",
+    n: track.n ?? null,
+    uts: track.uts ?? null,
+    url: track.spotify?.url ?? track.track?.url ?? null,
+  };
+}
+
+/** Tells the host page, if there is one. Results are public plays. */
+function post(event: EmbedEvent) {
+  if (window.parent !== window) window.parent.postMessage(event, "*");
+}
+
+/**
+ * The embeddable spin widget (see app/embed and embed.ts): reels and a
+ * compact card for one user's seeded scrobble spins, driven by its own
+ * button or by `slotfm:spin` messages from the page framing it.
+ */
+export default function EmbedSpin({
+  options: { user, theme, reels, autoplay },
+}: {
+  options: EmbedOptions;
+}) {
+  const [targets, setTargets] = useState<number[]>(() => Array(reels).fill(0));
+  const [track, setTrack] = useState<Track | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const loadingRef = useRef(false);
+  const sessionRef = useRef<SeedSession | null>(null);
+
+  const spin = useCallback(async () => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+    post({ type: "slotfm:spin", user });
+
+    let result: Track | { error: string };
+    try {
+      const res = await fetch(spinUrl(user, sessionRef.current));
+      const data = await res.json();
+      result = res.ok
+        ? (data as Track)
+        : { error: data?.error ?? "Error fetching track" };
+    } catch {
+      result = { error: "Error fetching track" };
+    }
+
+    if ("error" in result) {
+      setError(result.error);
+      post({ type: "slotfm:error", user, error: result.error });
+    } else {
+      if (result.seed !== undefined && result.pool !== undefined) {
+        sessionRef.current = {
+          seed: result.seed,
+          step: result.step ?? 0,
+          pool: result.pool,
+        };
+      }
+      setTrack(result);
+      if (typeof result.n === "number") {
+        setTargets(
+          toDigits(
+            result.n,
+            Math.max(reels, reelCountFor(result.pool ?? result.n))
+          )
+        );
+      }
+      post({ type: "slotfm:result", result: asResult(user, result) });
+    }
+    loadingRef.current = false;
+    setLoading(false);
+  }, [user, reels]);
+
+  // Only the framing page may drive the widget
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source === window.parent && isEmbedCommand(event.data)) {
+        spin();
+      }
+    };
+    window.addEventListener("message", onMessage);
+    post({ type: "slotfm:ready", user });
+    return () => window.removeEventListener("message", onMessage);
+  }, [spin, user]);
+
+  useEffect(() => {
+    if (autoplay) spin();
+  }, [autoplay, spin]);
+
+  const light = theme === "light";
+  const slotLength = targets.length;
+
+  return (
+    <main
+      className={`flex flex-col items-center justify-center gap-3 w-full h-screen overflow-hidden px-3 py-2 ${
+        light ? "bg-white text-neutral-900" : "bg-neutral-950 text-white"
+      }`}
+    >
+      <div className="flex gap-1.5">
+        <AnimatePresence initial={false} mode="popLayout">
+          {targets.map((target, i) => (
+            <motion.div
+              key={`p${slotLength - i}`}
+              layout
+              initial={{ opacity: 0, scale: 0.6 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.6 }}
+              transition={{ duration: 0.25 }}
+            >
+              <SlotReel
+                index={i}
+                target={target}
+                loading={loading}
+                spinSignal={0}
+                size="2.25rem"
+              />
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <div className="flex items-center gap-3 min-h-16 text-left text-sm">
+        {error ? (
+          <p className="text-neutral-500">{error}</p>
+        ) : (
+          track &&
+          !loading && (
+            <TrackCard track={track} imageSize={64}>
+              {typeof track.n === "number" && (
+                <a
+                  href={permalinkPath(user, track.n)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-neutral-500 underline"
+                >
+                  Open in SlotFM
+                </a>
+              )}
+            </TrackCard>
+          )
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={spin}
+        disabled={loading}
+        className="px-4 py-1.5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+      >
+        {loading ? "Spinning…" : `Spin ${user}'s scrobbles`}
+      </button>
+    </main>
+  );
+}
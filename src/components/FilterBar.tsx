@@ -0,0 +1,62 @@
+"use client";
+import { EMPTY_FILTERS, hasFilters, SpinFilters } from "@/lib/filters";
+
+const fieldClass =
+  "w-24 bg-transparent border-b border-neutral-700 py-0.5 text-center text-sm text-neutral-100 placeholder:text-neutral-600 focus:outline-none focus:border-red-500 transition-colors";
+
+const FIELDS: Array<{ key: keyof SpinFilters; placeholder: string }> = [
+  { key: "artist", placeholder: "artist" },
+  { key: "album", placeholder: "album" },
+  { key: "title", placeholder: "title has…" },
+  { key: "tag", placeholder: "tag" },
+  { key: "exclude", placeholder: "exclude a, b" },
+];
+
+/**
+ * Narrows scrobble spins to an artist, album, title search or tag.
+ * Enter in any field spins with the filters as typed.
+ */
+export default function FilterBar({
+  value,
+  onChange,
+  onSubmit,
+  disabled,
+}: {
+  value: SpinFilters;
+  onChange: (next: SpinFilters) => void;
+  onSubmit: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mt-3 max-w-xl text-xs text-neutral-400">
+      only
+      {FIELDS.map(({ key, placeholder }) => (
+        <input
+          key={key}
+          value={value[key]}
+          disabled={disabled}
+          placeholder={placeholder}
+          onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.currentTarget.blur();
+              onSubmit();
+            }
+          }}
+          className={fieldClass}
+          aria-label={`Filter by ${key}`}
+        />
+      ))}
+      {hasFilters(value) && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FILTERS)}
+          disabled={disabled}
+          className="text-white/70 underline cursor-pointer"
+        >
+          clear
+        </button>
+      )}
+    </div>
+  );
+}
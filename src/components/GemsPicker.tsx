@@ -0,0 +1,49 @@
+"use client";
+import { GemSettings } from "@/lib/gems";
+
+const fieldClass =
+  "w-12 bg-transparent border-b border-neutral-700 py-0.5 text-center text-sm text-neutral-100 focus:outline-none focus:border-red-500 transition-colors";
+
+/**
+ * Threshold inputs for the forgotten-gems mode.
+ */
+export default function GemsPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: GemSettings;
+  onChange: (next: GemSettings) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-1.5 mt-3 text-xs text-neutral-400">
+      not played in
+      <input
+        type="number"
+        min={1}
+        max={20}
+        value={value.olderThanYears}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...value, olderThanYears: Number(e.target.value) })
+        }
+        className={fieldClass}
+        aria-label="Years since last played"
+      />
+      years, at most
+      <input
+        type="number"
+        min={1}
+        value={value.maxPlays}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...value, maxPlays: Number(e.target.value) })
+        }
+        className={fieldClass}
+        aria-label="Maximum plays"
+      />
+      plays
+    </div>
+  );
+}
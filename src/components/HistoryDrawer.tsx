@@ -0,0 +1,138 @@
+"use client";
+import { AnimatePresence, motion } from "framer-motion";
+import Image from "next/image";
+import ServiceLinks from "@/components/ServiceLinks";
+import type { HistoryEntry } from "@/lib/spinHistory";
+import { spinModeInfo } from "@/lib/spinModes";
+
+/**
+ * Slide-in list of this user's spins, newest first. Clicking an entry
+ * re-opens it; the star pins it so clearing keeps it.
+ */
+export default function HistoryDrawer({
+  open,
+  entries,
+  currentId,
+  onClose,
+  onSelect,
+  onTogglePin,
+  onClear,
+}: {
+  open: boolean;
+  entries: HistoryEntry[];
+  currentId: string | null;
+  onClose: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+  onTogglePin: (id: string) => void;
+  onClear: () => void;
+}) {
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.aside
+          className="fixed top-0 right-0 z-20 flex flex-col w-80 max-w-full h-screen bg-neutral-950 border-l border-neutral-800 text-sm"
+          initial={{ x: "100%" }}
+          animate={{ x: 0 }}
+          exit={{ x: "100%" }}
+          transition={{ type: "spring", stiffness: 300, damping: 32 }}
+          aria-label="Spin history"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-800">
+            <span className="font-semibold text-white">History</span>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-neutral-500 hover:text-white cursor-pointer"
+              aria-label="Close history"
+            >
+              ✕
+            </button>
+          </div>
+
+          <ul className="flex-1 overflow-y-auto">
+            {entries.length === 0 && (
+              <li className="px-4 py-6 text-center text-neutral-500">
+                No spins yet
+              </li>
+            )}
+            {[...entries].reverse().map((entry) => {
+              const t = entry.result.track;
+              const art = t?.image?.[1]?.["#text"];
+              return (
+                <li
+                  key={entry.id}
+                  className={`px-4 py-2 border-b border-neutral-900 ${
+                    entry.id === currentId ? "bg-neutral-900" : ""
+                  }`}
+                >
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => onSelect(entry)}
+                      className="flex flex-1 min-w-0 gap-3 text-left cursor-pointer"
+                    >
+                      {art ? (
+                        <Image
+                          src={art}
+                          alt=""
+                          width={40}
+                          height={40}
+                          className="w-10 h-10 rounded object-cover shrink-0"
+                        />
+                      ) : (
+                        <div className="w-10 h-10 rounded bg-neutral-800 shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="truncate text-neutral-100">
+                          {t?.artist?.["#text"]} - {t?.name}
+                        </p>
+                        <p className="truncate text-xs text-neutral-500">
+                          {spinModeInfo(entry.mode).label} #{entry.n}
+                          {entry.rangeLabel ? ` · ${entry.rangeLabel}` : ""}
+                          {t?.date?.["#text"] ? ` · ${t.date["#text"]}` : ""}
+                        </p>
+                      </div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onTogglePin(entry.id)}
+                      className={`cursor-pointer ${
+                        entry.pinned
+                          ? "text-amber-400"
+                          : "text-neutral-600 hover:text-neutral-300"
+                      }`}
+                      aria-label={entry.pinned ? "Unpin" : "Pin"}
+                      aria-pressed={entry.pinned}
+                    >
+                      ★
+                    </button>
+                  </div>
+                  <ServiceLinks
+                    links={entry.result.links}
+                    className="justify-start mt-1 pl-[52px]"
+                  />
+                </li>
+              );
+            })}
+          </ul>
+
+          {entries.length > 0 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-neutral-800 text-xs text-neutral-500">
+              <span>
+                <kbd className="px-1 bg-neutral-800 rounded">[</kbd>{" "}
+                <kbd className="px-1 bg-neutral-800 rounded">]</kbd> step
+              </span>
+              <button
+                type="button"
+                onClick={onClear}
+                className="underline hover:text-white cursor-pointer"
+              >
+                Clear (keeps pinned)
+              </button>
+            </div>
+          )}
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
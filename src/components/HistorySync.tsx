@@ -0,0 +1,107 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { SyncStatus } from "@/lib/historyStore";
+
+const POLL_MS = 1500;
+
+function syncedAgo(ms: number) {
+  const minutes = Math.round((Date.now() - ms) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+/**
+ * Local history index status for the current user, with a button to start
+ * the import / incremental sync. Polls while a run is in progress.
+ */
+export default function HistorySync({ username }: { username: string | null }) {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  const refresh = useCallback(async (user: string) => {
+    try {
+      const res = await fetch(
+        `/api/lastfm/sync?user=${encodeURIComponent(user)}`
+      );
+      setStatus(res.ok ? await res.json() : null);
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  // Debounced: the username changes on every keystroke.
+  useEffect(() => {
+    setStatus(null);
+    if (!username) return;
+    const t = window.setTimeout(() => refresh(username), 500);
+    return () => window.clearTimeout(t);
+  }, [username, refresh]);
+
+  const running = status?.state === "importing" || status?.state === "syncing";
+
+  useEffect(() => {
+    if (!running || !username) return;
+    const t = window.setInterval(() => refresh(username), POLL_MS);
+    return () => window.clearInterval(t);
+  }, [running, username, refresh]);
+
+  const start = async () => {
+    if (!username) return;
+    try {
+      const res = await fetch(
+        `/api/lastfm/sync?user=${encodeURIComponent(username)}`,
+        { method: "POST" }
+      );
+      if (res.ok) setStatus(await res.json());
+    } catch {
+      // status stays as it was; the user can retry
+    }
+  };
+
+  if (!username || !status) return null;
+
+  let label: string;
+  if (running) {
+    const pages = status.totalPages
+      ? `${status.pagesDone}/${status.totalPages} pages`
+      : `${status.pagesDone} pages`;
+    label = `${
+      status.state === "importing" ? "Importing" : "Syncing"
+    } history… ${pages}`;
+  } else if (status.lastSyncedAt !== null && status.importTo === null) {
+    label = `Local index: ${status.count.toLocaleString()} scrobbles · synced ${syncedAgo(
+      status.lastSyncedAt
+    )}`;
+  } else if (status.state === "error") {
+    label = `Sync failed: ${status.error ?? "unknown error"}`;
+  } else {
+    label =
+      status.count > 0
+        ? `Import paused at ${status.count.toLocaleString()} scrobbles`
+        : "Spins use the live Last.fm API";
+  }
+
+  const action =
+    status.lastSyncedAt !== null && status.importTo === null
+      ? "Sync"
+      : status.count > 0
+      ? "Resume import"
+      : "Build local index";
+
+  return (
+    <div className="flex items-center gap-2 mt-2 text-xs text-neutral-500">
+      <span>{label}</span>
+      {!running && (
+        <button
+          type="button"
+          onClick={start}
+          className="text-white/70 underline cursor-pointer"
+        >
+          {action}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+import { SPIN_MODES, SpinMode } from "@/lib/spinModes";
+
+/**
+ * Segmented control choosing what a spin is uniform over.
+ */
+export default function ModePicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: SpinMode;
+  onChange: (next: SpinMode) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Spin mode"
+      className="flex rounded-md bg-neutral-900 p-0.5 mt-3"
+    >
+      {SPIN_MODES.map((m) => (
+        <button
+          key={m.id}
+          type="button"
+          role="radio"
+          aria-checked={value === m.id}
+          disabled={disabled}
+          onClick={() => onChange(m.id)}
+          className={`px-3 py-1 text-xs rounded transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+            value === m.id
+              ? "bg-neutral-700 text-white"
+              : "text-neutral-400 hover:text-neutral-200"
+          }`}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+  );
+}
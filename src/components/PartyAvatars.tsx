@@ -0,0 +1,61 @@
+"use client";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import type { Participant } from "@/lib/party";
+
+/**
+ * One avatar per party participant; the one whose history the reels
+ * landed in is highlighted.
+ */
+export default function PartyAvatars({
+  participants,
+  landed,
+}: {
+  participants: Participant[];
+  /** Username the last result came from, or null before one */
+  landed: string | null;
+}) {
+  return (
+    <div className="flex items-end justify-center gap-3 mt-4">
+      {participants.map((p) => {
+        const active = landed?.toLowerCase() === p.user.toLowerCase();
+        return (
+          <motion.div
+            key={p.user}
+            className="flex flex-col items-center gap-1"
+            animate={{ scale: active ? 1.15 : 1, opacity: active ? 1 : 0.5 }}
+            transition={{ type: "spring", stiffness: 300, damping: 20 }}
+            title={`${p.user}: ${p.playcount.toLocaleString()} scrobbles`}
+          >
+            {p.avatar ? (
+              <Image
+                src={p.avatar}
+                alt={p.user}
+                width={40}
+                height={40}
+                className={`rounded-full object-cover ${
+                  active ? "ring-2 ring-red-500" : ""
+                }`}
+              />
+            ) : (
+              <div
+                className={`flex items-center justify-center w-10 h-10 rounded-full bg-neutral-800 text-sm font-bold ${
+                  active ? "ring-2 ring-red-500" : ""
+                }`}
+              >
+                {p.user.slice(0, 1).toUpperCase()}
+              </div>
+            )}
+            <span
+              className={`text-xs ${
+                active ? "text-white" : "text-neutral-500"
+              }`}
+            >
+              {p.user}
+            </span>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+import { PARTY_WEIGHTINGS, PartyWeighting } from "@/lib/party";
+
+/**
+ * Segmented control choosing how much of a party pool each participant
+ * gets: their share of the scrobbles, or an equal slice.
+ */
+export default function PartyWeightingPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: PartyWeighting;
+  onChange: (next: PartyWeighting) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Party weighting"
+      className="flex rounded-md bg-neutral-900 p-0.5 mt-2"
+    >
+      {PARTY_WEIGHTINGS.map((w) => (
+        <button
+          key={w.id}
+          type="button"
+          role="radio"
+          aria-checked={value === w.id}
+          disabled={disabled}
+          onClick={() => onChange(w.id)}
+          className={`px-3 py-1 text-xs rounded transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+            value === w.id
+              ? "bg-neutral-700 text-white"
+              : "text-neutral-400 hover:text-neutral-200"
+          }`}
+        >
+          {w.label}
+        </button>
+      ))}
+    </div>
+  );
+}
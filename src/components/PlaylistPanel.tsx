@@ -0,0 +1,179 @@
+"use client";
+import { useState } from "react";
+import {
+  exportPlaylist,
+  PLAYLIST_FORMATS,
+  PlaylistFormat,
+  PlaylistItem,
+} from "@/lib/playlist";
+import type { SpotifyAccount } from "@/lib/spotifyAccount";
+
+const iconButton =
+  "px-1 text-neutral-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer";
+
+function download(text: string, mime: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * The tracks of a playlist spin, which can be reordered and pruned before
+ * exporting or saving to Spotify. Clicking a track shows it on the card.
+ */
+export default function PlaylistPanel({
+  items,
+  title,
+  currentN,
+  spotify,
+  onChange,
+  onSelect,
+  onClose,
+}: {
+  items: PlaylistItem[];
+  title: string;
+  currentN: number | null;
+  spotify: SpotifyAccount;
+  onChange: (next: PlaylistItem[]) => void;
+  onSelect: (item: PlaylistItem) => void;
+  onClose: () => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState<{ error: string } | { url: string }>();
+  const spotifyIds = items.flatMap((item) =>
+    item.spotify?.id ? [item.spotify.id] : []
+  );
+
+  const saveToSpotify = async () => {
+    setSaving(true);
+    setSaved(await spotify.createPlaylist(title, spotifyIds));
+    setSaving(false);
+  };
+
+  const move = (from: number, to: number) => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const save = (format: PlaylistFormat) => {
+    const { mime } = PLAYLIST_FORMATS.find((f) => f.value === format)!;
+    const filename = `${title.replace(/[^\w-]+/g, "-")}.${format}`;
+    download(exportPlaylist(items, format, title), mime, filename);
+  };
+
+  return (
+    <div className="w-full max-w-md mt-6 text-sm">
+      <div className="flex items-center justify-between mb-2 text-xs text-neutral-500">
+        <span>
+          {title} · {items.length} tracks
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="hover:text-white cursor-pointer"
+          aria-label="Close playlist"
+        >
+          ✕
+        </button>
+      </div>
+      <ol className="max-h-64 overflow-y-auto border border-neutral-800 rounded-md">
+        {items.map((item, i) => (
+          <li
+            key={item.n}
+            className={`flex items-center gap-2 px-3 py-1.5 border-b border-neutral-900 ${
+              item.n === currentN ? "bg-neutral-900" : ""
+            }`}
+          >
+            <span className="w-6 text-right text-xs text-neutral-600">
+              {i + 1}
+            </span>
+            <button
+              type="button"
+              onClick={() => onSelect(item)}
+              className="flex-1 min-w-0 text-left truncate cursor-pointer"
+            >
+              {item.track.artist["#text"]} - {item.track.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => move(i, i - 1)}
+              disabled={i === 0}
+              className={iconButton}
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(i, i + 1)}
+              disabled={i === items.length - 1}
+              className={iconButton}
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, j) => j !== i))}
+              className={iconButton}
+              aria-label="Remove from playlist"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-center gap-3 mt-2 text-xs text-neutral-500">
+        export
+        {PLAYLIST_FORMATS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => save(value)}
+            disabled={items.length === 0}
+            className="text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {spotify.available && (
+        <div className="flex items-center justify-center gap-2 mt-1 text-xs text-neutral-500">
+          {!spotify.connected ? (
+            <a href={spotify.loginHref()} className="text-white/70 underline">
+              Connect Spotify to save it
+            </a>
+          ) : saved && "url" in saved ? (
+            <a
+              href={saved.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-white/70 underline"
+            >
+              Open on Spotify
+            </a>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={saveToSpotify}
+                disabled={saving || spotifyIds.length === 0}
+                className="text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+              >
+                {saving ? "Saving…" : "Save to Spotify"}
+              </button>
+              {spotifyIds.length < items.length &&
+                `(${spotifyIds.length} of ${items.length} found)`}
+              {saved && "error" in saved && <span>{saved.error}</span>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+import { MAX_PLAYLIST_SPINS } from "@/lib/playlist";
+
+/** "or spin a playlist of N tracks", under the Spin button. */
+export default function PlaylistSpinner({
+  size,
+  onSizeChange,
+  onSpin,
+  disabled,
+}: {
+  size: number;
+  onSizeChange: (next: number) => void;
+  onSpin: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-2 mt-2 text-xs text-neutral-500">
+      or
+      <button
+        type="button"
+        onClick={onSpin}
+        disabled={disabled}
+        className="text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+      >
+        spin a playlist
+      </button>
+      of
+      <input
+        type="number"
+        min={1}
+        max={MAX_PLAYLIST_SPINS}
+        value={size}
+        disabled={disabled}
+        onChange={(e) =>
+          onSizeChange(
+            Math.min(
+              Math.max(Math.floor(Number(e.target.value)) || 1, 1),
+              MAX_PLAYLIST_SPINS
+            )
+          )
+        }
+        className="w-10 bg-transparent border-b border-neutral-700 text-center text-neutral-100 focus:outline-none focus:border-red-500"
+        aria-label="Playlist length"
+      />
+      tracks
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isEditingOrSelecting } from "@/lib/keyboard";
+import { readStored, writeStored } from "@/lib/storage";
+
+const FADE_MS = 600;
+// Start fading out this long before the clip ends
+const FADE_OUT_LEAD_S = 1.5;
+const AUTOPLAY_KEY = "slotfm:autoplay";
+const VOLUME_KEY = "slotfm:volume";
+
+/**
+ * 30-second preview for the spin result.
+ *
+ * Tries `sources` in order, moving on when one fails to load. Playback
+ * fades in and out; autoplay (opt-in, remembered) starts `startDelayMs`
+ * after mount so it lines up with the reels stopping. P toggles playback.
+ */
+export default function PreviewPlayer({
+  sources,
+  startDelayMs = 0,
+}: {
+  sources: string[];
+  startDelayMs?: number;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const fadeRef = useRef<number | null>(null);
+  const fadingOutRef = useRef(false);
+  const wantPlayRef = useRef(false);
+  const autoStartedRef = useRef(false);
+
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [volume, setVolume] = useState(0.8);
+  const volumeRef = useRef(volume);
+  const [autoPlay, setAutoPlay] = useState(false);
+
+  const src = sources[sourceIndex];
+
+  // Settings live in localStorage, which only exists after mount.
+  useEffect(() => {
+    const stored = readStored(VOLUME_KEY, 0.8);
+    volumeRef.current = stored;
+    setVolume(stored);
+    setAutoPlay(readStored(AUTOPLAY_KEY, false));
+  }, []);
+
+  const fadeTo = useCallback((target: number, done?: () => void) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (fadeRef.current) cancelAnimationFrame(fadeRef.current);
+    const from = audio.volume;
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / FADE_MS);
+      audio.volume = from + (target - from) * t;
+      if (t < 1) {
+        fadeRef.current = requestAnimationFrame(step);
+      } else {
+        fadeRef.current = null;
+        done?.();
+      }
+    };
+    fadeRef.current = requestAnimationFrame(step);
+  }, []);
+
+  const play = useCallback(async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    wantPlayRef.current = true;
+    fadingOutRef.current = false;
+    audio.volume = 0;
+    try {
+      await audio.play();
+      fadeTo(volumeRef.current);
+    } catch {
+      // Blocked by the browser's autoplay policy, or the source is broken
+      // (onError moves on to the next one).
+    }
+  }, [fadeTo]);
+
+  const pause = useCallback(() => {
+    wantPlayRef.current = false;
+    fadingOutRef.current = true;
+    fadeTo(0, () => audioRef.current?.pause());
+  }, [fadeTo]);
+
+  const toggle = useCallback(() => {
+    if (playing) pause();
+    else play();
+  }, [playing, pause, play]);
+
+  // Autoplay once per result, after the reels have landed.
+  useEffect(() => {
+    if (!autoPlay || !src || autoStartedRef.current) return;
+    autoStartedRef.current = true;
+    const t = window.setTimeout(play, startDelayMs);
+    return () => window.clearTimeout(t);
+  }, [autoPlay, src, play, startDelayMs]);
+
+  // A fallback source was swapped in while we meant to be playing.
+  useEffect(() => {
+    if (sourceIndex > 0 && wantPlayRef.current) play();
+  }, [sourceIndex, play]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditingOrSelecting() || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === "p" || e.key === "P") {
+        e.preventDefault();
+        toggle();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [toggle]);
+
+  // On unmount (next spin) fade the detached element out instead of cutting.
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => {
+      if (fadeRef.current) cancelAnimationFrame(fadeRef.current);
+      if (!audio || audio.paused) return;
+      const from = audio.volume;
+      const start = performance.now();
+      const step = (now: number) => {
+        const t = Math.min(1, (now - start) / FADE_MS);
+        audio.volume = from * (1 - t);
+        if (t < 1) requestAnimationFrame(step);
+        else audio.pause();
+      };
+      requestAnimationFrame(step);
+    };
+  }, []);
+
+  if (!src) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-3 mt-2 text-xs text-neutral-400">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="none"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlaying(false)}
+        onError={() => {
+          if (sourceIndex < sources.length - 1) setSourceIndex((i) => i + 1);
+        }}
+        onTimeUpdate={(e) => {
+          const audio = e.currentTarget;
+          if (
+            !fadingOutRef.current &&
+            audio.duration - audio.currentTime < FADE_OUT_LEAD_S
+          ) {
+            fadingOutRef.current = true;
+            fadeTo(0);
+          }
+        }}
+      />
+      <button
+        type="button"
+        onClick={toggle}
+        aria-label={playing ? "Pause preview" : "Play preview"}
+        title="Play/pause preview (P)"
+        className="w-7 h-7 rounded-full bg-neutral-800 text-white hover:bg-neutral-700 transition-colors cursor-pointer"
+      >
+        {playing ? "❚❚" : "▶"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          volumeRef.current = v;
+          setVolume(v);
+          writeStored(VOLUME_KEY, v);
+          if (fadeRef.current) cancelAnimationFrame(fadeRef.current);
+          if (audioRef.current && playing) audioRef.current.volume = v;
+        }}
+        aria-label="Preview volume"
+        className="w-20 accent-red-500"
+      />
+      <label className="flex items-center gap-1 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoPlay}
+          onChange={(e) => {
+            setAutoPlay(e.target.checked);
+            writeStored(AUTOPLAY_KEY, e.target.checked);
+            // Turning it on shouldn't blast the current result.
+            autoStartedRef.current = true;
+          }}
+          className="accent-red-500"
+        />
+        autoplay
+      </label>
+    </div>
+  );
+}
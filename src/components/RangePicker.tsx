@@ -0,0 +1,91 @@
+"use client";
+import { RANGE_PRESETS, RangeSelection } from "@/lib/spinRange";
+
+const fieldClass =
+  "bg-transparent border-b border-neutral-700 py-1 text-center text-sm text-neutral-100 focus:outline-none focus:border-red-500 transition-colors [color-scheme:dark]";
+
+/**
+ * Preset buttons plus the inputs each preset needs (year, month, from/to).
+ */
+export default function RangePicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: RangeSelection;
+  onChange: (next: RangeSelection) => void;
+  disabled?: boolean;
+}) {
+  const update = (patch: Partial<RangeSelection>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <div className="flex flex-col items-center gap-2 mt-3">
+      <div className="flex flex-wrap justify-center gap-1.5">
+        {RANGE_PRESETS.map((p) => (
+          <button
+            key={p.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => update({ preset: p.id })}
+            className={`px-2.5 py-1 text-xs rounded-md transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+              value.preset === p.id
+                ? "bg-red-500/80 text-white"
+                : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {value.preset === "year" && (
+        <input
+          type="number"
+          min={2002}
+          max={new Date().getFullYear()}
+          value={value.year}
+          onChange={(e) => update({ year: Number(e.target.value) })}
+          className={`${fieldClass} w-24`}
+          aria-label="Year"
+        />
+      )}
+
+      {value.preset === "month" && (
+        <input
+          type="month"
+          value={value.month}
+          onChange={(e) => update({ month: e.target.value })}
+          className={fieldClass}
+          aria-label="Month"
+        />
+      )}
+
+      {value.preset === "custom" && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={value.from}
+            onChange={(e) => update({ from: e.target.value })}
+            className={fieldClass}
+            aria-label="From"
+          />
+          <span className="text-neutral-500 text-sm">to</span>
+          <input
+            type="date"
+            value={value.to}
+            onChange={(e) => update({ to: e.target.value })}
+            className={fieldClass}
+            aria-label="To"
+          />
+        </div>
+      )}
+
+      {value.preset === "thisDay" && (
+        <small className="text-neutral-500">
+          Today&apos;s date in a random past year
+        </small>
+      )}
+    </div>
+  );
+}
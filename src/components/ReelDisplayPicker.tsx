@@ -0,0 +1,42 @@
+"use client";
+import { REEL_DISPLAYS, ReelDisplay } from "@/lib/reels";
+
+/**
+ * Segmented control choosing whether the reels show the rolled index or
+ * the rolled scrobble's date.
+ */
+export default function ReelDisplayPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: ReelDisplay;
+  onChange: (next: ReelDisplay) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Reel display"
+      className="flex rounded-md bg-neutral-900 p-0.5 mt-2"
+    >
+      {REEL_DISPLAYS.map((d) => (
+        <button
+          key={d.id}
+          type="button"
+          role="radio"
+          aria-checked={value === d.id}
+          disabled={disabled}
+          onClick={() => onChange(d.id)}
+          className={`px-3 py-1 text-xs rounded transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+            value === d.id
+              ? "bg-neutral-700 text-white"
+              : "text-neutral-400 hover:text-neutral-200"
+          }`}
+        >
+          {d.label}
+        </button>
+      ))}
+    </div>
+  );
+}
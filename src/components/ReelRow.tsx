@@ -0,0 +1,66 @@
+"use client";
+import { motion, AnimatePresence } from "framer-motion";
+import SlotReel from "@/components/SlotReel";
+import { DATE_SEPARATORS_AFTER } from "@/lib/reels";
+
+/**
+ * The spin page's reels: one per digit of the index (or YYYY-MM-DD), with
+ * the typing cursor on reel `cursor`.
+ */
+export default function ReelRow({
+  targets,
+  spinSignals,
+  cursor,
+  datesShown,
+  loading,
+}: {
+  targets: number[];
+  spinSignals: number[];
+  cursor: number;
+  datesShown: boolean;
+  loading: boolean;
+}) {
+  const slotLength = targets.length;
+  return (
+    <div className="flex gap-2.5 mt-5">
+      <AnimatePresence initial={false} mode="popLayout">
+        {targets.map((target, i) => (
+          // Index reels are keyed by place value so a count gaining
+          // a digit grows a reel on the left instead of reshuffling
+          <motion.div
+            key={datesShown ? `d${i}` : `p${slotLength - i}`}
+            layout
+            className="flex items-center gap-2.5"
+            initial={{ opacity: 0, scale: 0.6 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.6 }}
+            transition={{ duration: 0.25 }}
+          >
+            <div className="relative">
+              <SlotReel
+                index={i}
+                target={target}
+                loading={loading}
+                spinSignal={spinSignals[i] ?? 0} // Add this prop
+              />
+              {cursor === i && (
+                <motion.div
+                  className="absolute top-0 bottom-0 -left-1 -right-1 border-2 border-red-500"
+                  animate={{ opacity: [0.5, 1, 0.5] }}
+                  transition={{
+                    duration: 1.2,
+                    repeat: Infinity,
+                    ease: "linear",
+                  }}
+                />
+              )}
+            </div>
+            {datesShown && DATE_SEPARATORS_AFTER.includes(i) && (
+              <span className="text-3xl font-bold text-neutral-600">-</span>
+            )}
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+import { PROVIDERS, ProviderLinks } from "@/lib/enrichment/providers";
+import { isUncertainMatch } from "@/lib/trackMatch";
+
+/**
+ * Row of buttons linking the spin result out to each music service that
+ * found it. Scored matches the service wasn't sure of get a "?".
+ */
+export default function ServiceLinks({
+  links,
+  className = "justify-center mt-2",
+}: {
+  links?: ProviderLinks;
+  className?: string;
+}) {
+  const found = PROVIDERS.filter((p) => links?.[p.id]);
+  if (found.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {found.map((p) => {
+        const link = links?.[p.id];
+        const uncertain = isUncertainMatch(link?.confidence);
+        return (
+          <a
+            key={p.id}
+            href={link?.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={
+              uncertain
+                ? `Uncertain match (${Math.round(
+                    (link?.confidence ?? 0) * 100
+                  )}%, by ${link?.matchedBy} search)`
+                : undefined
+            }
+            className="px-2 py-0.5 text-[11px] rounded-full bg-neutral-800 text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors"
+          >
+            {p.label}
+            {uncertain && " ?"}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
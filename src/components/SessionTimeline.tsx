@@ -0,0 +1,225 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { ListeningSession, SessionWindow } from "@/lib/listeningSession";
+import type { ResolvedRange } from "@/lib/spinRange";
+
+const DAY_S = 24 * 60 * 60;
+
+const dayFormat = new Intl.DateTimeFormat(undefined, {
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+});
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  hour: "2-digit",
+  minute: "2-digit",
+});
+const time = (uts: number) => timeFormat.format(uts * 1000);
+
+function duration(seconds: number) {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60
+    ? `${minutes} min`
+    : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/** The local calendar day holding `uts`, as inclusive unix seconds. */
+function localDay(uts: number) {
+  const start = new Date(uts * 1000);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return {
+    from: start.getTime() / 1000,
+    to: end.getTime() / 1000 - 1,
+    label: dayFormat.format(start),
+  };
+}
+
+const sessionRange = (s: ListeningSession): ResolvedRange => ({
+  from: s.from,
+  to: s.to,
+  label: `the ${time(s.from)}–${time(s.to)} session of ${dayFormat.format(
+    s.from * 1000
+  )}`,
+});
+
+/**
+ * The listening session around a rolled scrobble and the rest of that
+ * day's listening (see the listening-session route): sessions drawn on a
+ * day-long bar, a scrubber through the picked session's tracks, and spins
+ * confined to the session or the day.
+ */
+export default function SessionTimeline({
+  user,
+  uts,
+  onSpinWithin,
+  disabled,
+}: {
+  user: string;
+  uts: number;
+  /** Omitted when the result can't be respun alone (party spins) */
+  onSpinWithin?: (range: ResolvedRange) => void;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [data, setData] = useState<SessionWindow | { error: string } | null>(
+    null
+  );
+  const [picked, setPicked] = useState(0);
+  const [position, setPosition] = useState(0);
+  const day = localDay(uts);
+
+  // A new scrobble starts closed
+  useEffect(() => {
+    setOpen(false);
+    setData(null);
+  }, [user, uts]);
+
+  useEffect(() => {
+    if (!open || data) return;
+    let cancelled = false;
+    const { from, to } = localDay(uts);
+    const params = new URLSearchParams({
+      user,
+      uts: String(uts),
+      from: String(from),
+      to: String(to),
+    });
+    fetch(`/api/lastfm/listening-session?${params.toString()}`)
+      .then(async (res) => {
+        const body = await res.json();
+        return res.ok
+          ? (body as SessionWindow)
+          : { error: body?.error ?? "Error fetching session" };
+      })
+      .catch(() => ({ error: "Error fetching session" }))
+      .then((next) => {
+        if (cancelled) return;
+        setData(next);
+        if (!("error" in next)) {
+          // JSON copies: match the session by its start
+          setPicked(
+            next.sessions.findIndex((s) => s.from === next.session.from)
+          );
+          setPosition(next.index);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, data, user, uts]);
+
+  const session = data && !("error" in data) ? data.sessions[picked] : null;
+  const scrubbed = session?.tracks[position];
+  // Horizontal position on the day bar, clamped to the day
+  const along = (t: number) =>
+    `${(Math.min(Math.max(t - day.from, 0), DAY_S) / DAY_S) * 100}%`;
+
+  return (
+    <div className="w-full max-w-xs text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="text-neutral-500 underline hover:text-white cursor-pointer"
+        aria-expanded={open}
+      >
+        {open ? "Hide session" : "Listening session"}
+      </button>
+      {open &&
+        (!data ? (
+          <p className="mt-2 text-neutral-500">Loading…</p>
+        ) : "error" in data ? (
+          <p className="mt-2 text-neutral-500">{data.error}</p>
+        ) : (
+          session && (
+            <div className="mt-2 text-left">
+              <p>
+                {time(session.from)}–{time(session.to)} ·{" "}
+                {duration(session.durationS)} · {session.tracks.length} tracks
+              </p>
+              <p className="text-neutral-500 truncate">
+                Mostly {session.dominantArtist.name}
+                {session.dominantAlbum &&
+                  session.dominantAlbum.plays > 1 &&
+                  ` · ${session.dominantAlbum.name}`}
+              </p>
+
+              <div
+                className="relative h-3 mt-2 rounded bg-neutral-900"
+                aria-label={`Listening on ${day.label}`}
+              >
+                {data.sessions.map((s, i) => (
+                  <button
+                    key={s.from}
+                    type="button"
+                    onClick={() => {
+                      setPicked(i);
+                      setPosition(0);
+                    }}
+                    title={`${time(s.from)}–${time(s.to)}, ${
+                      s.tracks.length
+                    } tracks`}
+                    className={`absolute top-0 bottom-0 min-w-1 rounded cursor-pointer ${
+                      i === picked ? "bg-red-500" : "bg-neutral-600"
+                    }`}
+                    style={{
+                      left: along(s.from),
+                      width: `calc(${along(s.to)} - ${along(s.from)})`,
+                    }}
+                  />
+                ))}
+                {scrubbed && (
+                  <span
+                    className="absolute -top-0.5 -bottom-0.5 w-px bg-white"
+                    style={{ left: along(scrubbed.uts) }}
+                  />
+                )}
+              </div>
+              <div className="flex justify-between text-neutral-600">
+                <span>{day.label}</span>
+                {data.truncated && <span>earlier plays not loaded</span>}
+              </div>
+
+              <input
+                type="range"
+                min={0}
+                max={session.tracks.length - 1}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                className="w-full mt-2 accent-red-500"
+                aria-label="Scrub through the session"
+              />
+              {scrubbed && (
+                <p className="truncate">
+                  <span className="text-neutral-600">{time(scrubbed.uts)}</span>{" "}
+                  {scrubbed.artist} - {scrubbed.name}
+                </p>
+              )}
+
+              {onSpinWithin && (
+                <div className="flex gap-3 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => onSpinWithin(sessionRange(session))}
+                    disabled={disabled}
+                    className="text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                  >
+                    Spin within this session
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSpinWithin(day)}
+                    disabled={disabled}
+                    className="text-white/70 underline disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                  >
+                    Spin within this day
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,796 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import HistoryDrawer from "@/components/HistoryDrawer";
+import PartyAvatars from "@/components/PartyAvatars";
+import PlaylistPanel from "@/components/PlaylistPanel";
+import PlaylistSpinner from "@/components/PlaylistSpinner";
+import ReelRow from "@/components/ReelRow";
+import SpinIntro from "@/components/SpinIntro";
+import SpinOptions from "@/components/SpinOptions";
+import SpinResult from "@/components/SpinResult";
+import UserTools from "@/components/UserTools";
+import { DEFAULT_GEM_SETTINGS, GemSettings } from "@/lib/gems";
+import { EMPTY_FILTERS, hasFilters, SpinFilters } from "@/lib/filters";
+import { isEditingOrSelecting } from "@/lib/keyboard";
+import { parsePartyUsers, PartyWeighting } from "@/lib/party";
+import {
+  DEFAULT_PLAYLIST_SPINS,
+  itemAsTrack,
+  PlaylistItem,
+} from "@/lib/playlist";
+import {
+  dateDigits,
+  dateFromDigits,
+  DEFAULT_REEL_COUNT,
+  fromDigits,
+  isReelDisplay,
+  ReelDisplay,
+  resultUts,
+} from "@/lib/reels";
+import { HistoryEntry, useSpinHistory } from "@/lib/spinHistory";
+import { SpinMode } from "@/lib/spinModes";
+import {
+  fetchMaxPlaycount,
+  fetchPlaylist,
+  fetchSpinWindow,
+  fetchTrack,
+  indexOfDate,
+  nthItemUrl,
+  recountSpin,
+  SeedSession,
+  seedSessionKey,
+  seededSpinUrl,
+  SpinContext,
+} from "@/lib/spinRequests";
+import {
+  defaultRangeSelection,
+  RangeSelection,
+  ResolvedRange,
+} from "@/lib/spinRange";
+import {
+  countStatus,
+  permalinkFor,
+  reelsFor,
+  showsDates,
+} from "@/lib/spinView";
+import { useSpotifyAccount } from "@/lib/spotifyAccount";
+import { readStored, writeStored } from "@/lib/storage";
+import type { Track } from "@/lib/track";
+
+const REEL_DISPLAY_KEY = "slotfm:reelDisplay";
+// How long the reels rest on each pick of a playlist spin
+const PLAYLIST_STEP_MS = 450;
+
+/** A permalinked spin, loaded on the server (see permalinkState.ts). */
+export type SlotInitialState = {
+  username: string;
+  n: number;
+  result: Track | null;
+  maxPlaycount: number | null;
+  range: ResolvedRange | null;
+  error?: string;
+};
+
+export default function SlotDemo({ initial }: { initial?: SlotInitialState }) {
+  // One reel per digit of the pool's count, or YYYYMMDD in date display
+  const [targets, setTargets] = useState<number[]>(() =>
+    initial
+      ? reelsFor(initial.n, initial.result, initial.maxPlaycount, false).digits
+      : Array(DEFAULT_REEL_COUNT).fill(0)
+  );
+  const slotLength = targets.length;
+  const [reelDisplay, setReelDisplay] = useState<ReelDisplay>("index");
+  // Whether `targets` currently holds a date rather than an index
+  const [datesShown, setDatesShown] = useState<boolean>(false);
+
+  const [username, setUsername] = useState<string | null>(
+    initial?.username ?? null
+  );
+  const [maxPlaycount, setMaxPlaycount] = useState<number | null>(
+    initial?.maxPlaycount ?? null
+  );
+  const [status, setStatus] = useState<string>(() => {
+    if (!initial) return "";
+    if (initial.error) return initial.error;
+    return initial.maxPlaycount != null
+      ? countStatus(initial.username, initial.maxPlaycount, {
+          mode: "scrobbles",
+          range: initial.range,
+        })
+      : "";
+  });
+
+  const [rangeSelection, setRangeSelection] = useState<RangeSelection>(() =>
+    defaultRangeSelection()
+  );
+  const [spinMode, setSpinMode] = useState<SpinMode>("scrobbles");
+  const [gemSettings, setGemSettings] =
+    useState<GemSettings>(DEFAULT_GEM_SETTINGS);
+  // Several comma-separated usernames make a party spin
+  const partyUsers = parsePartyUsers(username ?? "");
+  const isParty = partyUsers.length > 1;
+  const [partyWeighting, setPartyWeighting] =
+    useState<PartyWeighting>("scrobbles");
+  const [filters, setFilters] = useState<SpinFilters>(EMPTY_FILTERS);
+  const [playlist, setPlaylist] = useState<PlaylistItem[] | null>(null);
+  const [playlistTitle, setPlaylistTitle] = useState<string>("");
+  const [playlistSize, setPlaylistSize] = useState<number>(
+    DEFAULT_PLAYLIST_SPINS
+  );
+  // Bumped by every spin, so a playlist still walking the reels stops
+  const walkRef = useRef(0);
+  // Seeded scrobble spins keep one seed per user and window
+  const seedRef = useRef<SeedSession | null>(null);
+  // Mode and window of the last spin; Enter re-indexes into the same pool
+  const [activeSpin, setActiveSpin] = useState<SpinContext>({
+    mode: "scrobbles",
+    range: initial?.range ?? null,
+  });
+
+  const [track, setTrack] = useState<Track | null>(initial?.result ?? null);
+  const spotifyAccount = useSpotifyAccount();
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const {
+    entries: historyEntries,
+    add: addToHistory,
+    togglePin,
+    clear: clearHistory,
+  } = useSpinHistory(username);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+
+  const [spinSignals, setSpinSignals] = useState<number[]>(() =>
+    Array(slotLength).fill(0)
+  );
+  const [cursor, setCursor] = useState<number>(-1);
+
+  /** Sets the reels to a result and spins them all into place. */
+  const land = useCallback(
+    (
+      n: number,
+      result: Track | null,
+      mode: SpinMode,
+      max: number | null,
+      display: ReelDisplay = reelDisplay
+    ) => {
+      const { digits, dates } = reelsFor(
+        n,
+        result,
+        max,
+        showsDates(display, mode)
+      );
+      setDatesShown(dates);
+      setTargets(digits);
+      setSpinSignals(Array(digits.length).fill(Date.now()));
+      setCursor(-1);
+    },
+    [reelDisplay]
+  );
+
+  // The display preference lives in localStorage, which only exists after
+  // mount; a server-rendered result is redrawn as its date if preferred.
+  useEffect(() => {
+    const stored = readStored<unknown>(REEL_DISPLAY_KEY, "index");
+    if (!isReelDisplay(stored) || stored === "index") return;
+    setReelDisplay(stored);
+    const uts = resultUts(initial?.result);
+    if (uts !== null) {
+      setDatesShown(true);
+      setTargets(dateDigits(uts));
+    }
+  }, [initial]);
+
+  const changeReelDisplay = (next: ReelDisplay) => {
+    setReelDisplay(next);
+    writeStored(REEL_DISPLAY_KEY, next);
+    const n = track?.n ?? track?.rank ?? (datesShown ? 1 : fromDigits(targets));
+    land(n, track, activeSpin.mode, maxPlaycount, next);
+  };
+
+  // SlotReel stops reel i 300 + i * 150 ms after loading ends; allow for
+  // the last one's spring before a preview autoplays.
+  const reelsSettleMs = 300 + (slotLength - 1) * 150 + 300;
+
+  /**
+   * Spins the selected mode and window, or with `within`, a plain scrobble
+   * spin confined to that window (the session timeline's respins).
+   */
+  const spinRandom = useCallback(
+    async (within?: ResolvedRange) => {
+      if (!username) {
+        setStatus("Enter a Last.fm username");
+        return;
+      }
+
+      walkRef.current++;
+      setLoading(true);
+
+      // 1) Count the scrobbles inside the selected window
+      setUsername(username);
+      setMaxPlaycount(null);
+      setTrack(null);
+      setStatus("Fetching…");
+
+      const party = parsePartyUsers(username);
+      const mode = within ? "scrobbles" : spinMode;
+      const spinFilters =
+        !within && spinMode === "scrobbles" && hasFilters(filters)
+          ? filters
+          : null;
+      const spinWindow = within
+        ? await fetchMaxPlaycount(username, within).then((count) =>
+            "error" in count
+              ? count
+              : count.maxPlaycount === 0
+              ? { error: `No scrobbles in ${within.label}` }
+              : {
+                  maxPlaycount: count.maxPlaycount,
+                  range: within,
+                  participants: undefined,
+                }
+          )
+        : await fetchSpinWindow(
+            username,
+            rangeSelection,
+            spinMode,
+            gemSettings,
+            party.length > 1
+              ? { users: party, weighting: partyWeighting }
+              : null,
+            spinFilters
+          );
+      if ("error" in spinWindow) {
+        setStatus(spinWindow.error);
+        setLoading(false);
+        return;
+      }
+
+      const { maxPlaycount: localMax, range, participants } = spinWindow;
+      const spin: SpinContext = {
+        mode,
+        range,
+        maxPlays: mode === "gems" ? gemSettings.maxPlays : undefined,
+        party: participants
+          ? { participants, weighting: partyWeighting }
+          : undefined,
+        filters: spinFilters ?? undefined,
+      };
+      setActiveSpin(spin);
+      setMaxPlaycount(localMax);
+      setStatus(countStatus(username, localMax, spin));
+
+      // 2) Plain scrobble spins let the server pick the index from a seed;
+      // the other pools pick a random index in [1, localMax] here
+      const seeded = spin.mode === "scrobbles" && !spin.party && !spin.filters;
+      const sessionKey = seedSessionKey(username, range);
+      const session =
+        seedRef.current?.key === sessionKey && seedRef.current.pool <= localMax
+          ? seedRef.current
+          : null;
+      const random = Math.floor(Math.random() * localMax) + 1;
+
+      // 3) Fetch the item (some modes land on a nearby index instead)
+      const result = await fetchTrack(
+        seeded
+          ? seededSpinUrl(username, range, session)
+          : nthItemUrl(username, random, localMax, spin)
+      );
+      if (seeded && !("error" in result) && result.seed !== undefined) {
+        seedRef.current = {
+          key: sessionKey,
+          seed: result.seed,
+          step: result.step ?? 0,
+          pool: result.pool ?? localMax,
+        };
+      }
+      let landed = random;
+      if ("error" in result) {
+        setStatus(result.error);
+      } else {
+        if (typeof result.n === "number") landed = result.n;
+        result.permalink = permalinkFor(username, landed, spin, result.party);
+        setTrack(result);
+        // The route pages against Last.fm's live total; keep clamping in sync
+        if (typeof result.total === "number") setMaxPlaycount(result.total);
+        setCurrentEntryId(
+          addToHistory({
+            n: landed,
+            mode: spin.mode,
+            rangeLabel: spin.range?.label,
+            result,
+          })
+        );
+      }
+      setLoading(false);
+
+      // 4) Update reels and cursor
+      land(
+        landed,
+        "error" in result ? null : result,
+        spin.mode,
+        "error" in result ? localMax : result.total ?? localMax
+      );
+    },
+    [
+      username,
+      rangeSelection,
+      spinMode,
+      gemSettings,
+      partyWeighting,
+      filters,
+      land,
+      setStatus,
+      setUsername,
+      setMaxPlaycount,
+      setActiveSpin,
+      setTrack,
+      addToHistory,
+      setCurrentEntryId,
+      setLoading,
+    ]
+  );
+
+  /** Shows one pick of a playlist on the card and the reels. */
+  const showPick = useCallback(
+    (item: PlaylistItem, spin: SpinContext, max: number | null) => {
+      if (!username) return;
+      const shown = itemAsTrack(item);
+      shown.permalink = permalinkFor(username, item.n, spin);
+      setTrack(shown);
+      land(item.n, shown, spin.mode, max);
+    },
+    [username, land]
+  );
+
+  /**
+   * Spins `playlistSize` scrobbles in one request, then walks the reels
+   * through the picks, ending on the last.
+   */
+  const spinPlaylist = useCallback(async () => {
+    if (!username) {
+      setStatus("Enter a Last.fm username");
+      return;
+    }
+    if (parsePartyUsers(username).length > 1 || spinMode !== "scrobbles") {
+      setStatus("Playlists draw from one user's scrobbles");
+      return;
+    }
+    if (hasFilters(filters)) {
+      setStatus("Clear the filters to spin a playlist");
+      return;
+    }
+
+    const walk = ++walkRef.current;
+    setLoading(true);
+    setMaxPlaycount(null);
+    setTrack(null);
+    setPlaylist(null);
+    setStatus("Fetching…");
+
+    const spinWindow = await fetchSpinWindow(
+      username,
+      rangeSelection,
+      "scrobbles",
+      gemSettings,
+      null,
+      null
+    );
+    if ("error" in spinWindow) {
+      setStatus(spinWindow.error);
+      setLoading(false);
+      return;
+    }
+    const { maxPlaycount: localMax, range } = spinWindow;
+    const spin: SpinContext = { mode: "scrobbles", range };
+    setActiveSpin(spin);
+    setMaxPlaycount(localMax);
+    setStatus(`Spinning ${Math.min(playlistSize, localMax)} times…`);
+
+    const result = await fetchPlaylist(
+      username,
+      Math.min(playlistSize, localMax),
+      localMax,
+      range
+    );
+    setLoading(false);
+    if ("error" in result) {
+      setStatus(result.error);
+      return;
+    }
+    setMaxPlaycount(result.total);
+    setStatus(countStatus(username, result.total, spin));
+    setPlaylistTitle(`slotfm ${username}${range ? ` ${range.label}` : ""}`);
+    setPlaylist(result.items);
+
+    for (const item of result.items) {
+      if (walkRef.current !== walk) return;
+      showPick(item, spin, result.total);
+      await new Promise((r) => setTimeout(r, PLAYLIST_STEP_MS));
+    }
+  }, [
+    username,
+    spinMode,
+    filters,
+    rangeSelection,
+    gemSettings,
+    playlistSize,
+    showPick,
+  ]);
+
+  /** Shows a past spin again: card, reels and history highlight. */
+  const reopen = useCallback(
+    (entry: HistoryEntry) => {
+      setTrack(entry.result);
+      land(entry.n, entry.result, entry.mode, null);
+      setCurrentEntryId(entry.id);
+    },
+    [land]
+  );
+
+  /** Moves through history: -1 = older, +1 = newer. */
+  const stepHistory = useCallback(
+    (delta: number) => {
+      if (historyEntries.length === 0) return;
+      const at = historyEntries.findIndex((e) => e.id === currentEntryId);
+      const from = at === -1 ? historyEntries.length : at;
+      const next = Math.min(
+        Math.max(from + delta, 0),
+        historyEntries.length - 1
+      );
+      if (next !== at) reopen(historyEntries[next]);
+    },
+    [historyEntries, currentEntryId, reopen]
+  );
+
+  useEffect(() => {
+    const spinCurrent = async () => {
+      // if we dont have maxPlacount dont do anything
+      if (!maxPlaycount || !username) {
+        return;
+      }
+      // Typed date reels land on the first scrobble of that day
+      const typedDay = datesShown ? dateFromDigits(targets) : null;
+      if (datesShown && activeSpin.party) {
+        // Party pools are histories laid end to end, not one timeline
+        setStatus("Typed dates don't apply to party spins");
+        return;
+      }
+      if (datesShown && activeSpin.filters) {
+        // Matching scrobbles are scattered, so a day has no single index
+        setStatus("Typed dates don't apply to filtered spins");
+        return;
+      }
+      if (datesShown && !typedDay) {
+        setStatus("Enter a real date (YYYY-MM-DD)");
+        return;
+      }
+      walkRef.current++;
+      setLoading(true);
+
+      setUsername(username);
+      setMaxPlaycount(null);
+      setTrack(null);
+      setStatus("Fetching…");
+
+      const count = await recountSpin(username, activeSpin);
+      if ("error" in count) {
+        setStatus(count.error);
+        setLoading(false);
+        return;
+      }
+      const { maxPlaycount: localMax, spin } = count;
+      setActiveSpin(spin);
+      setMaxPlaycount(localMax);
+      setStatus(countStatus(username, localMax, spin));
+
+      let currentNumber = fromDigits(targets);
+      if (typedDay) {
+        const index = await indexOfDate(username, typedDay, localMax, spin);
+        if (typeof index !== "number") {
+          setStatus(index.error);
+          setLoading(false);
+          return;
+        }
+        currentNumber = index;
+      }
+
+      // if current number is greater than maxPlaycount, clamp to maxPlaycount
+      const clampedNumber =
+        maxPlaycount != null
+          ? Math.min(currentNumber, Math.max(1, maxPlaycount))
+          : currentNumber;
+
+      // if current number is 0, set to 1
+      const finalNumber = clampedNumber === 0 ? 1 : clampedNumber;
+
+      // call server to get track
+      const result = await fetchTrack(
+        nthItemUrl(username, finalNumber, localMax, spin)
+      );
+      let landed = finalNumber;
+      if ("error" in result) {
+        setStatus(result.error);
+      } else {
+        if (typeof result.n === "number") landed = result.n;
+        result.permalink = permalinkFor(username, landed, spin, result.party);
+        setTrack(result);
+        if (typeof result.total === "number") setMaxPlaycount(result.total);
+        setCurrentEntryId(
+          addToHistory({
+            n: landed,
+            mode: activeSpin.mode,
+            rangeLabel: activeSpin.range?.label,
+            result,
+          })
+        );
+      }
+      setLoading(false);
+      // set targets to the index (or date) we landed on
+      land(
+        landed,
+        "error" in result ? null : result,
+        activeSpin.mode,
+        "error" in result ? localMax : result.total ?? localMax
+      );
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditingOrSelecting()) return;
+
+      // Move cursor left/right; clamp to [0, slotLength]
+      if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        setCursor((c) => Math.max(c - 1, -1));
+        return;
+      }
+      if (e.key === "ArrowRight") {
+        e.preventDefault();
+        setCursor((c) => Math.min(c + 1, slotLength));
+        return;
+      }
+      // Optional: jump to ends
+      // if (e.key === "Home") {
+      //   e.preventDefault();
+      //   setCursor(0);
+      //   return;
+      // }
+      // if (e.key === "End") {
+      //   e.preventDefault();
+      //   setCursor(slotLength);
+      //   return;
+      // }
+
+      if (e.key >= "0" && e.key <= "9") {
+        if (cursor < slotLength) {
+          const val = parseInt(e.key, 10);
+          setTargets((prev) => {
+            const next = [...prev];
+            next[cursor] = val;
+            return next;
+          });
+          setSpinSignals((prev) => {
+            const next = [...prev];
+            next[cursor] = Date.now();
+            return next;
+          });
+          setCursor((c) => Math.min(c + 1, slotLength));
+        }
+      } else if (e.key === "Backspace") {
+        e.preventDefault();
+        if (cursor > 0) {
+          const idx = cursor - 1;
+          setTargets((prev) => {
+            const next = [...prev];
+            next[idx] = 0;
+            return next;
+          });
+          setSpinSignals((prev) => {
+            const next = [...prev];
+            next[idx] = Date.now();
+            return next;
+          });
+          setCursor((c) => Math.max(c - 1, 0));
+        }
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        spinCurrent();
+      } else if (e.code === "Space") {
+        e.preventDefault();
+        spinRandom();
+      } else if (e.key === "[") {
+        e.preventDefault();
+        stepHistory(-1);
+      } else if (e.key === "]") {
+        e.preventDefault();
+        stepHistory(1);
+      } else if (e.key === "h" || e.key === "H") {
+        e.preventDefault();
+        setHistoryOpen((open) => !open);
+      } else if (e.key === "Escape") {
+        setHistoryOpen(false);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [
+    cursor,
+    slotLength,
+    setCursor,
+    setTargets,
+    setSpinSignals,
+    spinRandom,
+    stepHistory,
+    addToHistory,
+    maxPlaycount,
+    activeSpin,
+    username,
+    targets,
+    datesShown,
+    land,
+  ]);
+
+  // const applyNumberToReels = (n: number) => {
+  //   const digits = String(Math.max(0, Math.floor(n)))
+  //     .split("")
+  //     .map((d) => Number(d));
+  //   const padded = digits.slice(-slotLength); // take rightmost digits if longer
+  //   const leftPad = Array(Math.max(0, slotLength - padded.length))
+  //     .fill(0)
+  //     .concat(padded);
+  //   setTargets(leftPad);
+  //   setSpinSignals((prev) => prev.map(() => Date.now()));
+  //   setCursor(slotLength);
+  // };
+
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div
+      tabIndex={0}
+      className="flex flex-col items-center justify-center w-screen h-screen p-4 bg-black text-neutral-100 focus:outline-none"
+    >
+      <div className="fixed top-4 right-4 text-sm text-neutral-500">
+        Favicon from{" "}
+        <motion.a
+          href="https://www.flaticon.com/free-icons/slot-machine"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-white/70 underline"
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 0.5, delay: 0.9 }}
+        >
+          Freepik
+        </motion.a>
+      </div>
+      <button
+        type="button"
+        onClick={() => setHistoryOpen((open) => !open)}
+        className="fixed top-4 left-4 text-sm text-neutral-500 hover:text-white transition-colors cursor-pointer"
+        title="Spin history (H)"
+      >
+        History{historyEntries.length > 0 && ` (${historyEntries.length})`}
+      </button>
+      <HistoryDrawer
+        open={historyOpen}
+        entries={historyEntries}
+        currentId={currentEntryId}
+        onClose={() => setHistoryOpen(false)}
+        onSelect={reopen}
+        onTogglePin={togglePin}
+        onClear={clearHistory}
+      />
+      <SpinIntro />
+
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.4 }}
+        className="flex flex-col items-center gap-2"
+      >
+        <input
+          value={username ?? ""}
+          onChange={(e) => setUsername(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              spinRandom();
+            }
+            if (inputRef.current && e.key === "Enter") {
+              inputRef.current.blur();
+            }
+          }}
+          placeholder="Last.fm username(s)"
+          className="w-full max-w-xs bg-transparent border-b border-neutral-700 py-2 text-center text-lg text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-red-500 transition-colors"
+          ref={inputRef}
+        />
+        <SpinOptions
+          mode={spinMode}
+          onModeChange={setSpinMode}
+          range={rangeSelection}
+          onRangeChange={setRangeSelection}
+          filters={filters}
+          onFiltersChange={setFilters}
+          onFiltersSubmit={() => spinRandom()}
+          gems={gemSettings}
+          onGemsChange={setGemSettings}
+          isParty={isParty}
+          weighting={partyWeighting}
+          onWeightingChange={setPartyWeighting}
+          reelDisplay={reelDisplay}
+          onReelDisplayChange={changeReelDisplay}
+          disabled={loading}
+        />
+        <small>{status}</small>
+        <button
+          onClick={() => spinRandom()}
+          disabled={loading}
+          className="px-5 py-2 mt-6 font-semibold bg-neutral-800 rounded-md hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer"
+        >
+          Spin
+        </button>
+        {spinMode === "scrobbles" && !isParty && (
+          <PlaylistSpinner
+            size={playlistSize}
+            onSizeChange={setPlaylistSize}
+            onSpin={spinPlaylist}
+            disabled={loading}
+          />
+        )}
+        <UserTools username={isParty ? null : username} />
+      </motion.div>
+
+      {/* 3. Main controls fade in only AFTER username is set */}
+      <AnimatePresence>
+        {username && (maxPlaycount || track) && (
+          <motion.div
+            className="flex flex-col items-center"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.4, delay: 0.2 }} // Quick delay for a smooth handoff
+          >
+            <ReelRow
+              targets={targets}
+              spinSignals={spinSignals}
+              cursor={cursor}
+              datesShown={datesShown}
+              loading={loading}
+            />
+            {activeSpin.party && (
+              <PartyAvatars
+                participants={activeSpin.party.participants}
+                landed={track?.party?.user ?? null}
+              />
+            )}
+
+            <SpinResult
+              user={username}
+              track={track}
+              loading={loading}
+              spotify={spotifyAccount}
+              previewDelayMs={reelsSettleMs}
+              onSpinWithin={spinRandom}
+            />
+            {playlist && (
+              <PlaylistPanel
+                items={playlist}
+                title={playlistTitle}
+                currentN={track?.n ?? null}
+                spotify={spotifyAccount}
+                onChange={setPlaylist}
+                onSelect={(item) => {
+                  walkRef.current++;
+                  showPick(item, activeSpin, maxPlaycount);
+                }}
+                onClose={() => setPlaylist(null)}
+              />
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
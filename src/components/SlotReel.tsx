@@ -0,0 +1,132 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+
+/**
+ * A helper hook to get the previous value of a prop or state.
+ * This is useful for detecting changes in props, like when `loading`
+ * transitions from true to false.
+ */
+function usePrevious<T>(value: T): T | undefined {
+  const ref = useRef<T>(undefined);
+  useEffect(() => {
+    ref.current = value;
+  }, [value]);
+  return ref.current;
+}
+
+/**
+ * One digit reel: spins while `loading` (staggered by `index`) and settles
+ * on `target` after it; a changed `spinSignal` gives it a short solo spin.
+ */
+export default function SlotReel({
+  index,
+  target,
+  loading,
+  spinSignal,
+  size = "3rem",
+}: {
+  index: number;
+  target: number;
+  loading: boolean;
+  spinSignal: number;
+  /** Digit font size; the embed widget uses smaller reels */
+  size?: string;
+}) {
+  const [currentDigit, setCurrentDigit] = useState(target);
+  const prevLoading = usePrevious(loading);
+  const prevSpinSignal = usePrevious(spinSignal);
+
+  const intervalRef = useRef<number | null>(null);
+  const startTimeoutRef = useRef<number | null>(null);
+  const stopTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const loadingStarted = loading && !prevLoading;
+    const loadingStopped = !loading && prevLoading;
+    const signalChanged =
+      prevSpinSignal !== undefined && spinSignal !== prevSpinSignal;
+
+    // --- Global Spin START ---
+    if (loadingStarted) {
+      if (intervalRef.current) clearInterval(intervalRef.current);
+      if (stopTimeoutRef.current) clearTimeout(stopTimeoutRef.current);
+
+      startTimeoutRef.current = window.setTimeout(() => {
+        intervalRef.current = window.setInterval(() => {
+          setCurrentDigit((prev) => (prev + 1) % 10);
+        }, 45 + (index % 3) * 10);
+      }, index * 100);
+    }
+
+    // --- Global Spin STOP ---
+    if (loadingStopped) {
+      if (startTimeoutRef.current) {
+        clearTimeout(startTimeoutRef.current);
+      }
+      stopTimeoutRef.current = window.setTimeout(() => {
+        if (intervalRef.current) {
+          clearInterval(intervalRef.current);
+        }
+        setCurrentDigit(target);
+      }, 300 + index * 150);
+    }
+
+    // --- Individual Spin SIGNAL ---
+    if (signalChanged && !loading) {
+      // CRITICAL FIX: Clear existing timers before starting a new one-shot spin.
+      // This prevents orphaned intervals if signals arrive quickly (e.g., typing fast).
+      if (intervalRef.current) clearInterval(intervalRef.current);
+      if (stopTimeoutRef.current) clearTimeout(stopTimeoutRef.current);
+
+      intervalRef.current = window.setInterval(() => {
+        setCurrentDigit((prev) => (prev + 1) % 10);
+      }, 50);
+
+      stopTimeoutRef.current = window.setTimeout(() => {
+        if (intervalRef.current) {
+          clearInterval(intervalRef.current);
+        }
+        setCurrentDigit(target);
+      }, 250);
+    }
+  }, [loading, prevLoading, spinSignal, prevSpinSignal, target, index]);
+
+  // Final Cleanup (no changes here)
+  useEffect(() => {
+    return () => {
+      if (intervalRef.current) clearInterval(intervalRef.current);
+      if (startTimeoutRef.current) clearTimeout(startTimeoutRef.current);
+      if (stopTimeoutRef.current) clearTimeout(stopTimeoutRef.current);
+    };
+  }, []);
+
+  return (
+    // The JSX remains the same
+    <div>
+      <AnimatePresence mode="popLayout" initial={false}>
+        <motion.div
+          key={currentDigit}
+          initial={{ rotateX: 90, opacity: 0, y: -6 }}
+          animate={{ rotateX: 0, opacity: 1, y: 0 }}
+          exit={{ rotateX: -90, opacity: 0, y: 6 }}
+          transition={{
+            type: "spring",
+            stiffness: 260,
+            damping: 22,
+            mass: 0.7,
+          }}
+          style={{
+            fontSize: size,
+            fontWeight: "bold",
+            display: "inline-block",
+            width: "1ch",
+            textAlign: "center",
+          }}
+        >
+          {currentDigit}
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+import { motion } from "framer-motion";
+
+/** The spin page's title and keyboard help; fades in first. */
+export default function SpinIntro() {
+  return (
+    <div className="text-center mb-8">
+      <motion.h1
+        className="text-5xl font-extrabold tracking-tight text-white"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+      >
+        slotfm
+      </motion.h1>
+      <p className="text-neutral-500 text-sm mt-1">
+        Spin a random track from your Last.fm history
+      </p>
+
+      <motion.p
+        className="text-neutral-400 mt-3 max-w-xl mx-auto leading-relaxed"
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.3 }}
+      >
+        Enter your <span className="text-white/80 font-medium">Last.fm</span>{" "}
+        username and press{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          Space
+        </kbd>{" "}
+        or click <span className="text-white/80 font-medium">Spin</span> to get
+        a scrobble.
+        <br />
+        Use{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          ←
+        </kbd>{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          →
+        </kbd>{" "}
+        to move the cursor,
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          Backspace
+        </kbd>{" "}
+        to edit, and{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          Enter
+        </kbd>{" "}
+        to confirm.{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          P
+        </kbd>{" "}
+        plays the preview,{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          [
+        </kbd>{" "}
+        <kbd className="px-1 py-0.5 bg-neutral-800 rounded text-white/70 text-sm">
+          ]
+        </kbd>{" "}
+        step through your history.
+        <br />
+        <span className="text-neutral-500 text-sm block mt-2">
+          Built by{" "}
+          <motion.a
+            href="https://github.com/ericf1"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-white/70 underline"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.5, delay: 0.8 }}
+          >
+            ericf1
+          </motion.a>
+        </span>
+      </motion.p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+import FilterBar from "@/components/FilterBar";
+import GemsPicker from "@/components/GemsPicker";
+import ModePicker from "@/components/ModePicker";
+import PartyWeightingPicker from "@/components/PartyWeightingPicker";
+import RangePicker from "@/components/RangePicker";
+import ReelDisplayPicker from "@/components/ReelDisplayPicker";
+import type { SpinFilters } from "@/lib/filters";
+import type { GemSettings } from "@/lib/gems";
+import type { PartyWeighting } from "@/lib/party";
+import type { ReelDisplay } from "@/lib/reels";
+import { SpinMode, spinModeInfo } from "@/lib/spinModes";
+import type { RangeSelection } from "@/lib/spinRange";
+
+/**
+ * The settings of the next spin: its mode, and whichever of range,
+ * filters, gem thresholds, party weighting and reel display apply to it.
+ */
+export default function SpinOptions({
+  mode,
+  onModeChange,
+  range,
+  onRangeChange,
+  filters,
+  onFiltersChange,
+  onFiltersSubmit,
+  gems,
+  onGemsChange,
+  isParty,
+  weighting,
+  onWeightingChange,
+  reelDisplay,
+  onReelDisplayChange,
+  disabled,
+}: {
+  mode: SpinMode;
+  onModeChange: (next: SpinMode) => void;
+  range: RangeSelection;
+  onRangeChange: (next: RangeSelection) => void;
+  filters: SpinFilters;
+  onFiltersChange: (next: SpinFilters) => void;
+  onFiltersSubmit: () => void;
+  gems: GemSettings;
+  onGemsChange: (next: GemSettings) => void;
+  /** Several usernames: no filters, and the pool is split by `weighting` */
+  isParty: boolean;
+  weighting: PartyWeighting;
+  onWeightingChange: (next: PartyWeighting) => void;
+  reelDisplay: ReelDisplay;
+  onReelDisplayChange: (next: ReelDisplay) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <>
+      <ModePicker value={mode} onChange={onModeChange} disabled={disabled} />
+      {/* Top lists have no time axis, so ranges only apply to scrobbles */}
+      {mode === "scrobbles" && (
+        <RangePicker
+          value={range}
+          onChange={onRangeChange}
+          disabled={disabled}
+        />
+      )}
+      {mode === "scrobbles" && !isParty && (
+        <FilterBar
+          value={filters}
+          onChange={onFiltersChange}
+          onSubmit={onFiltersSubmit}
+          disabled={disabled}
+        />
+      )}
+      {mode === "gems" && (
+        <GemsPicker value={gems} onChange={onGemsChange} disabled={disabled} />
+      )}
+      {isParty && mode !== "blend" && (
+        <PartyWeightingPicker
+          value={weighting}
+          onChange={onWeightingChange}
+          disabled={disabled}
+        />
+      )}
+      {spinModeInfo(mode).pool === "recent" && (
+        <ReelDisplayPicker
+          value={reelDisplay}
+          onChange={onReelDisplayChange}
+          disabled={disabled}
+        />
+      )}
+    </>
+  );
+}
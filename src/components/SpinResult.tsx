@@ -0,0 +1,109 @@
+"use client";
+import { motion, AnimatePresence } from "framer-motion";
+import CopyLinkButton from "@/components/CopyLinkButton";
+import PreviewPlayer from "@/components/PreviewPlayer";
+import ServiceLinks from "@/components/ServiceLinks";
+import SessionTimeline from "@/components/SessionTimeline";
+import SpotifyActions from "@/components/SpotifyActions";
+import TrackCard from "@/components/TrackCard";
+import TrackStatsPanel from "@/components/TrackStatsPanel";
+import { previewUrls } from "@/lib/enrichment/providers";
+import { resultUts } from "@/lib/reels";
+import type { ResolvedRange } from "@/lib/spinRange";
+import type { SpotifyAccount } from "@/lib/spotifyAccount";
+import type { Track } from "@/lib/track";
+
+/**
+ * The landed track under the reels, fading in once a spin completes, and
+ * for scrobbles its stats and listening session.
+ */
+export default function SpinResult({
+  user,
+  track,
+  loading,
+  spotify,
+  previewDelayMs,
+  onSpinWithin,
+}: {
+  user: string;
+  track: Track | null;
+  loading: boolean;
+  spotify: SpotifyAccount;
+  /** Until the reels settle */
+  previewDelayMs: number;
+  onSpinWithin: (range: ResolvedRange) => void;
+}) {
+  // Scrobble results get the stats panel; it needs their timestamp
+  const trackUts = resultUts(track);
+  return (
+    <>
+      <div className="relative mt-5">
+        {/* 1. INVISIBLE PLACEHOLDER */}
+        {/* This div has the same structure as your content. Its only job
+      is to take up space in the layout so nothing below it moves.
+      The `invisible` class makes it take up space without being seen. */}
+        <div
+          className="flex flex-col items-center gap-3 text-center invisible"
+          aria-hidden="true"
+        >
+          <div className="w-24 h-24 rounded-md" />
+          <div>
+            <p className="font-bold">Artist Name - Longest Track Name</p>
+            <p className="text-sm text-neutral-400">
+              Longest Album Title Possible
+            </p>
+            <p className="text-xs text-neutral-500 mt-1">Formatted Date Text</p>
+          </div>
+        </div>
+
+        {/* 2. ANIMATED CONTENT (POSITIONED ON TOP) */}
+        {/* This div is absolutely positioned to fill the space created
+      by the placeholder above. Your content animates inside it. */}
+        <div className="absolute inset-0 flex justify-center">
+          <AnimatePresence mode="popLayout">
+            {track && (
+              <motion.div
+                key={track?.track?.name}
+                className="flex flex-col items-center gap-3 text-center"
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                transition={{ duration: 0.3 }}
+              >
+                <TrackCard track={track}>
+                  <ServiceLinks links={track.links} />
+                  <SpotifyActions
+                    account={spotify}
+                    spotifyId={track.spotify?.id}
+                  />
+                  {track.permalink && <CopyLinkButton path={track.permalink} />}
+                  <PreviewPlayer
+                    key={`${track.n}-${track.track?.url}`}
+                    sources={previewUrls(track.links)}
+                    startDelayMs={previewDelayMs}
+                  />
+                </TrackCard>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+      {track?.track && trackUts !== null && !loading && (
+        <div className="mt-4 flex flex-col items-center gap-2">
+          <TrackStatsPanel
+            user={track.party?.user ?? user}
+            artist={track.track.artist["#text"]}
+            track={track.track.name}
+            uts={trackUts}
+          />
+          <SessionTimeline
+            user={track.party?.user ?? user}
+            uts={trackUts}
+            onSpinWithin={track.party ? undefined : onSpinWithin}
+            disabled={loading}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { SpotifyAccount } from "@/lib/spotifyAccount";
+
+const actionClass =
+  "text-xs text-neutral-400 hover:text-white underline disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer";
+
+/**
+ * Like / queue buttons for a spin result with a Spotify match, or a
+ * connect link while the browser isn't logged in to Spotify.
+ */
+export default function SpotifyActions({
+  account,
+  spotifyId,
+}: {
+  account: SpotifyAccount;
+  spotifyId?: string | null;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+
+  // A new result starts with a clean slate
+  useEffect(() => setNote(null), [spotifyId]);
+
+  if (!account.available || !spotifyId) return null;
+
+  if (!account.connected) {
+    return (
+      <a href={account.loginHref()} className={`mt-2 ${actionClass}`}>
+        Connect Spotify
+      </a>
+    );
+  }
+
+  const run = async (
+    action: (id: string) => Promise<{ error: string } | { ok: true }>,
+    done: string
+  ) => {
+    setBusy(true);
+    const result = await action(spotifyId);
+    setNote("error" in result ? result.error : done);
+    setBusy(false);
+  };
+
+  return (
+    <div className="flex items-center justify-center gap-3 mt-2">
+      <button
+        type="button"
+        onClick={() => run(account.like, "Saved to Liked Songs")}
+        disabled={busy}
+        className={actionClass}
+      >
+        Like on Spotify
+      </button>
+      <button
+        type="button"
+        onClick={() => run(account.queue, "Queued")}
+        disabled={busy}
+        className={actionClass}
+      >
+        Queue
+      </button>
+      {note && <span className="text-xs text-neutral-500">{note}</span>}
+      <button
+        type="button"
+        onClick={account.logout}
+        className="text-xs text-neutral-600 hover:text-white cursor-pointer"
+        title="Disconnect Spotify"
+        aria-label="Disconnect Spotify"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+import type { ReactNode } from "react";
+import Image from "next/image";
+import { describeGem } from "@/lib/gems";
+import type { Track } from "@/lib/track";
+
+/**
+ * A spin result: album art and title linking out (Spotify when matched,
+ * else Last.fm), album, scrobble date and whatever the spin mode adds
+ * (gem reason, blend plays, rank). `children` go under the text, for the
+ * caller's actions. Renders its parts bare; the caller lays them out.
+ */
+export default function TrackCard({
+  track,
+  imageSize = 96,
+  children,
+}: {
+  track: Track;
+  imageSize?: number;
+  children?: ReactNode;
+}) {
+  const href = track.spotify?.url ?? track.track?.url;
+  return (
+    <>
+      {track.track?.image?.[2]?.["#text"] && (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          <Image
+            src={track.track?.image[2]["#text"]} // e.g. https://lastfm.freetls.fastly.net/i/u/...
+            alt="Album Art"
+            width={imageSize}
+            height={imageSize}
+            className="rounded-md shadow-lg object-cover"
+            priority={false}
+          />
+        </a>
+      )}
+
+      <div>
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-bold"
+        >
+          {track.track?.artist?.["#text"]} - {track.track?.name}
+        </a>
+        {track.track?.album?.["#text"] && (
+          <p className="text-sm text-neutral-400">
+            {track.track?.album["#text"]}
+          </p>
+        )}
+        {track.track?.date?.["#text"] && (
+          <p className="text-xs text-neutral-500 mt-1">
+            {track.track?.date["#text"]}
+          </p>
+        )}
+        {track.gem && (
+          <p className="text-xs text-amber-400/80 mt-1">
+            {describeGem(track.gem)}
+          </p>
+        )}
+        {track.blend && (
+          <p className="text-xs text-neutral-500 mt-1">
+            {track.blend.map((b) => `${b.user}: ${b.playcount}`).join(" · ")}{" "}
+            plays
+          </p>
+        )}
+        {track.rank != null && (
+          <p className="text-xs text-neutral-500 mt-1">
+            #{track.rank}
+            {track.total ? ` of ${track.total}` : ""}
+            {track.playcount != null && ` · ${track.playcount} plays`}
+          </p>
+        )}
+        {children}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { NeighbourPlay, TrackStats } from "@/lib/trackStats";
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+});
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+const plays = (n: number | null) =>
+  n === null ? "–" : n.toLocaleString("en-US");
+const day = (uts: number | null) =>
+  uts === null ? "–" : dateFormat.format(uts * 1000);
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <dt className="text-neutral-500">{label}</dt>
+      <dd className="text-right">{value}</dd>
+    </>
+  );
+}
+
+function Neighbours({ plays }: { plays: NeighbourPlay[] }) {
+  return (
+    <>
+      {plays.map((p) => (
+        <li key={`${p.uts}:${p.name}`} className="truncate text-neutral-400">
+          <span className="text-neutral-600">
+            {timeFormat.format(p.uts * 1000)}
+          </span>{" "}
+          {p.artist} - {p.name}
+        </li>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Expandable stats under the card for a rolled scrobble: plays of the
+ * track and artist, first/last play, and the plays around it. Fetched
+ * from the track-stats route the first time it is opened.
+ */
+export default function TrackStatsPanel({
+  user,
+  artist,
+  track,
+  uts,
+}: {
+  user: string;
+  artist: string;
+  track: string;
+  uts: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<TrackStats | { error: string } | null>(
+    null
+  );
+
+  // A new scrobble starts closed
+  useEffect(() => {
+    setOpen(false);
+    setStats(null);
+  }, [user, artist, track, uts]);
+
+  useEffect(() => {
+    if (!open || stats) return;
+    let cancelled = false;
+    const params = new URLSearchParams({
+      user,
+      artist,
+      track,
+      uts: String(uts),
+    });
+    fetch(`/api/lastfm/track-stats?${params.toString()}`)
+      .then(async (res) => {
+        const data = await res.json();
+        return res.ok
+          ? (data as TrackStats)
+          : { error: data?.error ?? "Error fetching stats" };
+      })
+      .catch(() => ({ error: "Error fetching stats" }))
+      .then((next) => {
+        if (!cancelled) setStats(next);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, stats, user, artist, track, uts]);
+
+  return (
+    <div className="w-full max-w-xs text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="text-neutral-500 underline hover:text-white cursor-pointer"
+        aria-expanded={open}
+      >
+        {open ? "Hide stats" : "Stats"}
+      </button>
+      {open &&
+        (!stats ? (
+          <p className="mt-2 text-neutral-500">Loading…</p>
+        ) : "error" in stats ? (
+          <p className="mt-2 text-neutral-500">{stats.error}</p>
+        ) : (
+          <div className="mt-2 text-left">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+              <Row label="Your plays (track)" value={plays(stats.track.user)} />
+              <Row
+                label="Your plays (artist)"
+                value={plays(stats.artist.user)}
+              />
+              <Row label="First played" value={day(stats.firstPlayed)} />
+              <Row label="Last played" value={day(stats.lastPlayed)} />
+              <Row
+                label="Listeners (track)"
+                value={plays(stats.track.listeners)}
+              />
+              <Row
+                label="Listeners (artist)"
+                value={plays(stats.artist.listeners)}
+              />
+            </dl>
+            {(stats.before.length > 0 || stats.after.length > 0) && (
+              <ol className="mt-2 space-y-0.5">
+                <Neighbours plays={stats.before} />
+                <li className="truncate font-medium">
+                  <span className="text-neutral-600">
+                    {timeFormat.format(uts * 1000)}
+                  </span>{" "}
+                  {artist} - {track}
+                </li>
+                <Neighbours plays={stats.after} />
+              </ol>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+import EmbedSnippet from "@/components/EmbedSnippet";
+import HistorySync from "@/components/HistorySync";
+
+/**
+ * What one user can do besides spinning: sync their history, open their
+ * track of the day, embed the widget. Hidden for parties (null).
+ */
+export default function UserTools({ username }: { username: string | null }) {
+  return (
+    <>
+      <HistorySync username={username} />
+      {username && (
+        <a
+          href={`/daily/${encodeURIComponent(username)}`}
+          className="text-xs text-neutral-500 underline hover:text-white"
+        >
+          {username}&apos;s track of the day
+        </a>
+      )}
+      {username && <EmbedSnippet user={username} />}
+    </>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Error responses for the API routes: `{ error, code }` with the failure's
+ * status. `error` is for people; `code` is stable for clients to branch on.
+ *
+ * Last.fm failures keep their own code (see lastfmClient); other failures
+ * get one from their status:
+ *   400  invalid_input
+ *   401  not_connected   (no or expired Spotify login)
+ *   403  forbidden
+ *   404  not_found
+ *   429  rate_limited
+ *   502  upstream_error
+ *   503  unavailable
+ *   other 5xx  server_error
+ *
+ * Server-only.
+ */
+
+import { NextResponse } from "next/server";
+import type { LastFmErrorCode } from "@/lib/lastfmClient";
+
+export type ApiErrorCode =
+  | LastFmErrorCode
+  | "invalid_input"
+  | "not_connected"
+  | "forbidden"
+  | "not_found"
+  | "server_error";
+
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: "invalid_input",
+  401: "not_connected",
+  403: "forbidden",
+  404: "not_found",
+  429: "rate_limited",
+  502: "upstream_error",
+  503: "unavailable",
+};
+
+export function codeForStatus(status: number): ApiErrorCode {
+  return (
+    CODE_BY_STATUS[status] ?? (status >= 500 ? "server_error" : "invalid_input")
+  );
+}
+
+/** The JSON response for `failure`, with its code or one from its status. */
+export function apiError(failure: {
+  error: string;
+  status: number;
+  code?: ApiErrorCode;
+}) {
+  return NextResponse.json(
+    {
+      error: failure.error,
+      code: failure.code ?? codeForStatus(failure.status),
+    },
+    { status: failure.status }
+  );
+}
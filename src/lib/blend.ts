@@ -0,0 +1,112 @@
+/**
+ * Common-ground spins: the tracks every one of several users has scrobbled.
+ *
+ * A user's library is their local history index when they have one (see
+ * historyStore), otherwise the first BLEND_PAGES pages of their all-time
+ * user.getTopTracks, i.e. their most played tracks; one-off plays deep in
+ * the long tail can be missed. The overlap is ordered by combined plays so
+ * a given index keeps pointing at the same track while it is cached.
+ *
+ * Server-only.
+ */
+
+import { cached, TTL } from "@/lib/cache";
+import { getLocalHistory } from "@/lib/historyStore";
+import { PAGE_LIMIT, readTopList, topListUrl, trackKey } from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+
+const BLEND_PAGES = 10;
+
+export type LibraryTrack = {
+  artist: string;
+  name: string;
+  playcount: number;
+};
+type Library = Map<string, LibraryTrack>;
+
+/** A shared track and each user's plays of it, in the users' order. */
+export type BlendEntry = { artist: string; name: string; playcounts: number[] };
+
+/**
+ * A user's tracks and their plays of each (see the module comment for
+ * where they come from). Also the live pool of filtered spins.
+ */
+export async function fetchLibrary(
+  user: string,
+  apiKey: string
+): Promise<Library | { error: string; status: number }> {
+  const local = await getLocalHistory(user);
+  if (local) return local.playcounts();
+
+  const library: Library = new Map();
+  for (let page = 1; page <= BLEND_PAGES; page++) {
+    const result = await lastFmGet(
+      topListUrl("tracks", user, apiKey, { page }),
+      TTL.topList
+    );
+    if ("error" in result) {
+      return result.code === "user_not_found"
+        ? { ...result, error: `Last.fm user not found: ${user}` }
+        : result;
+    }
+    const { items } = readTopList("tracks", result.data);
+    for (const item of items) {
+      const artist = item.artist?.name ?? "";
+      library.set(trackKey(artist, item.name), {
+        artist,
+        name: item.name,
+        playcount: Number(item.playcount) || 0,
+      });
+    }
+    if (items.length < PAGE_LIMIT) break;
+  }
+  return library;
+}
+
+const plays = (e: BlendEntry) => e.playcounts.reduce((a, b) => a + b, 0);
+
+/**
+ * Tracks all of `users` have scrobbled, most played (combined) first.
+ * Failures come back as `{ error, status }` ready for a JSON response.
+ */
+export async function getBlend(
+  users: string[],
+  apiKey: string
+): Promise<BlendEntry[] | { error: string; status: number }> {
+  return cached(
+    `pool:blend:${users.map((u) => u.toLowerCase()).join(",")}`,
+    (entries) => (Array.isArray(entries) ? TTL.spinPool : 0),
+    () => blendOf(users, apiKey),
+    { sharedStore: false }
+  );
+}
+
+async function blendOf(
+  users: string[],
+  apiKey: string
+): Promise<BlendEntry[] | { error: string; status: number }> {
+  const libraries = await Promise.all(
+    users.map((user) => fetchLibrary(user, apiKey))
+  );
+  const failed = libraries.find((l) => !(l instanceof Map));
+  if (failed && !(failed instanceof Map)) return failed;
+  const [first, ...rest] = libraries as Library[];
+
+  const entries: BlendEntry[] = [];
+  for (const [key, track] of first) {
+    const others = rest.map((library) => library.get(key)?.playcount);
+    if (others.some((c) => c === undefined)) continue;
+    entries.push({
+      artist: track.artist,
+      name: track.name,
+      playcounts: [track.playcount, ...(others as number[])],
+    });
+  }
+  entries.sort(
+    (a, b) =>
+      plays(b) - plays(a) ||
+      trackKey(a.artist, a.name).localeCompare(trackKey(b.artist, b.name))
+  );
+
+  return entries;
+}
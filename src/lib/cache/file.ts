@@ -0,0 +1,41 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { CacheBackend, CacheEntry } from "./index";
+
+/**
+ * One JSON file per entry under `dir`, named by a hash of the key so keys
+ * never have to be valid file names. Survives restarts; expired files are
+ * removed when next read.
+ */
+export function fileBackend(dir: string): CacheBackend {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+
+  return {
+    name: "file",
+    async get(key) {
+      try {
+        const entry: CacheEntry = JSON.parse(
+          await fs.readFile(fileFor(key), "utf8")
+        );
+        if (entry.expiresAt > Date.now()) return entry;
+        await fs.rm(fileFor(key), { force: true });
+      } catch {
+        // Missing or unreadable: a miss
+      }
+      return undefined;
+    },
+    async set(key, entry) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent read never sees half a file
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry));
+      await fs.rename(tmp, file);
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * One cache for the app's upstream calls (Last.fm, Spotify and the other
+ * music services), in place of per-fetch `next.revalidate` hints.
+ *
+ * Entries live in an in-process LRU, backed by a shared store when one is
+ * configured through SLOTFM_CACHE:
+ *   memory (default)  the LRU alone
+ *   file              JSON files under SLOTFM_CACHE_DIR (default .data/cache)
+ *   redis             a Redis REST endpoint: SLOTFM_REDIS_URL, SLOTFM_REDIS_TOKEN
+ * A failing shared store only costs hits; lookups then go upstream.
+ *
+ * Concurrent lookups of the same key share one upstream call. TTLs are
+ * per endpoint (see TTL). Routes wrapped in withCacheStatus report how
+ * their lookups went in `X-Cache` / `X-Cache-Lookups` headers.
+ *
+ * Server-only.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import path from "path";
+import type { TimeRange } from "@/lib/lastfm";
+import { fileBackend } from "./file";
+import { memoryBackend } from "./memory";
+import { redisBackend } from "./redis";
+
+export type CacheEntry = { value: unknown; expiresAt: number };
+
+export interface CacheBackend {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+/** How long each kind of upstream answer stays fresh (ms). */
+export const TTL = {
+  /** Recent-tracks pages that can still gain scrobbles */
+  recentPage: MINUTE,
+  /** Recent-tracks pages bounded by a `to` well in the past never change */
+  historyPage: 30 * DAY,
+  userInfo: 5 * MINUTE,
+  topList: 5 * MINUTE,
+  /** Global charts, tracklists, track.getInfo */
+  catalog: DAY,
+  artistTags: 7 * DAY,
+  spotifyMatch: 7 * DAY,
+  /** Pools computed from the above (filtered spins, common ground) */
+  spinPool: 5 * MINUTE,
+  /** Apple, Deezer, YouTube and MusicBrainz lookups */
+  serviceLookup: DAY,
+} as const;
+
+// Scrobbles can be submitted a while after they were played
+const SETTLED_AFTER_S = 24 * 60 * 60;
+
+/** TTL of a user.getRecentTracks page over `range`. */
+export function recentPageTtl(range: TimeRange) {
+  const settled = Date.now() / 1000 - SETTLED_AFTER_S;
+  return range.to !== undefined && range.to < settled
+    ? TTL.historyPage
+    : TTL.recentPage;
+}
+
+const MEMORY_ENTRIES = 5000;
+
+function sharedBackend(): CacheBackend | null {
+  switch (process.env.SLOTFM_CACHE) {
+    case "file":
+      return fileBackend(
+        process.env.SLOTFM_CACHE_DIR ??
+          path.join(process.cwd(), ".data", "cache")
+      );
+    case "redis": {
+      const url = process.env.SLOTFM_REDIS_URL;
+      const token = process.env.SLOTFM_REDIS_TOKEN;
+      if (url && token) return redisBackend(url, token);
+      console.error("SLOTFM_CACHE=redis needs SLOTFM_REDIS_URL and _TOKEN.");
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+const memory = memoryBackend(MEMORY_ENTRIES);
+const shared = sharedBackend();
+const inflight = new Map<string, Promise<{ value: unknown; hit: boolean }>>();
+
+// ---- Per-request hit/miss tally ----
+
+type Tally = { hits: number; misses: number };
+const tallies = new AsyncLocalStorage<Tally>();
+
+function record(hit: boolean) {
+  const tally = tallies.getStore();
+  if (tally) tally[hit ? "hits" : "misses"]++;
+}
+
+/**
+ * Wraps a route handler so its response says how the cache served it:
+ * `X-Cache: HIT | MISS | PARTIAL` and `X-Cache-Lookups: <hits> hit,
+ * <misses> miss`. Responses that made no lookups get neither header.
+ */
+export function withCacheStatus<A extends unknown[], R extends Response>(
+  handler: (...args: A) => Promise<R>
+) {
+  return (...args: A): Promise<R> => {
+    const tally: Tally = { hits: 0, misses: 0 };
+    return tallies.run(tally, async () => {
+      const res = await handler(...args);
+      if (tally.hits + tally.misses > 0) {
+        res.headers.set(
+          "X-Cache",
+          !tally.misses ? "HIT" : !tally.hits ? "MISS" : "PARTIAL"
+        );
+        res.headers.set(
+          "X-Cache-Lookups",
+          `${tally.hits} hit, ${tally.misses} miss`
+        );
+      }
+      return res;
+    });
+  };
+}
+
+// ---- Lookups ----
+
+async function readShared(key: string) {
+  try {
+    return await shared?.get(key);
+  } catch (error) {
+    console.error(`Cache ${shared?.name} read failed:`, error);
+    return undefined;
+  }
+}
+
+async function store(key: string, entry: CacheEntry) {
+  await memory.set(key, entry);
+  try {
+    await shared?.set(key, entry);
+  } catch (error) {
+    console.error(`Cache ${shared?.name} write failed:`, error);
+  }
+}
+
+/**
+ * `load()`'s value for `key`, from the cache while fresh. `ttlMs` may be a
+ * function of the value (e.g. a token's own lifetime); a TTL of 0 or less
+ * skips storing, which callers use for failures. Concurrent calls for the
+ * same key share one `load()`.
+ */
+export async function cached<T>(
+  key: string,
+  ttlMs: number | ((value: T) => number),
+  load: () => Promise<T>,
+  { sharedStore = true }: { sharedStore?: boolean } = {}
+): Promise<T> {
+  const hot = await memory.get(key);
+  if (hot) {
+    record(true);
+    return hot.value as T;
+  }
+
+  const pending = inflight.get(key);
+  if (pending) {
+    record(true);
+    return (await pending).value as T;
+  }
+
+  const run = (async () => {
+    const warm = sharedStore ? await readShared(key) : undefined;
+    if (warm) {
+      await memory.set(key, warm);
+      return { value: warm.value as T, hit: true };
+    }
+    const value = await load();
+    const ttl = typeof ttlMs === "function" ? ttlMs(value) : ttlMs;
+    if (ttl > 0) {
+      const entry = { value, expiresAt: Date.now() + ttl };
+      if (sharedStore) await store(key, entry);
+      else await memory.set(key, entry);
+    }
+    return { value, hit: false };
+  })();
+
+  inflight.set(key, run);
+  try {
+    const { value, hit } = await run;
+    record(hit);
+    return value;
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+type StoredResponse = { status: number; statusText: string; body: string };
+
+/**
+ * fetch() through the cache: successful responses are kept for `ttlMs`,
+ * failures are passed on and not kept. Keys hash the URL, so API keys in
+ * query strings never reach a shared store.
+ */
+export async function cachedFetch(
+  url: URL | string,
+  ttlMs: number,
+  init: RequestInit = {}
+): Promise<Response> {
+  const href = url.toString();
+  const key = `fetch:${createHash("sha256").update(href).digest("hex")}`;
+  const stored = await cached<StoredResponse>(
+    key,
+    (r) => (r.status >= 200 && r.status < 300 ? ttlMs : 0),
+    async () => {
+      const resp = await fetch(href, { ...init, cache: "no-store" });
+      return {
+        status: resp.status,
+        statusText: resp.statusText,
+        body: await resp.text(),
+      };
+    }
+  );
+  // Statuses like 204 must not carry a body, even an empty one
+  const nullBody = [204, 205, 304].includes(stored.status);
+  return new Response(nullBody ? null : stored.body, {
+    status: stored.status,
+    statusText: stored.statusText,
+  });
+}
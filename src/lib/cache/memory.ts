@@ -0,0 +1,40 @@
+import type { CacheBackend, CacheEntry } from "./index";
+
+const SWEEP_EVERY_MS = 60_000;
+
+/**
+ * In-process LRU: a Map kept in use order (reads move an entry to the
+ * end), dropping from the front past `maxEntries`. Expired entries are
+ * swept now and then too, since some values (whole spin pools) are big.
+ */
+export function memoryBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+  let sweptAt = Date.now();
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      const now = Date.now();
+      if (now - sweptAt > SWEEP_EVERY_MS) {
+        sweptAt = now;
+        for (const [k, e] of entries) if (e.expiresAt <= now) entries.delete(k);
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
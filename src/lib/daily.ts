@@ -0,0 +1,53 @@
+/**
+ * Daily spin: one track of the day per username, the same for everyone
+ * who opens it that (UTC) day.
+ *
+ * Day D's pick is a seeded spin (see seededSpin.ts) with seed
+ * `daily:<user>:<D>` over the scrobbles from before D, a pool that no
+ * longer changes once D has begun. So any past day's pick can be worked
+ * out again from the count and get-nth-song alone, which is how the
+ * calendar shows them.
+ *
+ * The streak of days in a row lives client-side, in dailyStreak.ts.
+ *
+ * Client-safe.
+ */
+
+import { seededIndex } from "@/lib/seededSpin";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days the calendar shows at a time. */
+export const DAILY_CALENDAR_DAYS = 7;
+
+/** `at`'s UTC date as YYYY-MM-DD. */
+export function dailyDate(at: Date = new Date()) {
+  return at.toISOString().slice(0, 10);
+}
+
+export function isDailyDate(value: string) {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+    dailyDate(new Date(`${value}T00:00:00Z`)) === value
+  );
+}
+
+/** The date `days` after `date` (before, when negative). */
+export function shiftDate(date: string, days: number) {
+  return dailyDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+/** The pool day `date` picks from: every scrobble before it began. */
+export function dailyRange(date: string) {
+  return { to: Date.parse(`${date}T00:00:00Z`) / 1000 - 1 };
+}
+
+export function dailySeed(user: string, date: string) {
+  return `daily:${user.toLowerCase()}:${date}`;
+}
+
+/** Index (from the oldest) of `user`'s pick for `date` among `pool`. */
+export function dailyIndex(user: string, date: string, pool: number) {
+  return seededIndex(dailySeed(user, date), pool, 0);
+}
@@ -0,0 +1,27 @@
+/**
+ * Loads a user's daily pick (see daily.ts) for the daily route and page.
+ *
+ * Server-only.
+ */
+
+import type { EnrichmentOptions } from "@/lib/enrichment";
+import { dailyIndex, dailyRange, dailySeed } from "@/lib/daily";
+import { countScrobbles, loadScrobble } from "@/lib/scrobbles";
+
+export async function loadDailySpin(
+  user: string,
+  date: string,
+  enrichment: EnrichmentOptions
+) {
+  const range = dailyRange(date);
+  const count = await countScrobbles(user, range);
+  if ("error" in count) return count;
+  if (count.total === 0) {
+    return { error: `No scrobbles from before ${date}`, status: 404 };
+  }
+
+  const n = dailyIndex(user, date, count.total);
+  const result = await loadScrobble(user, n, count.total, range, enrichment);
+  if ("error" in result) return result;
+  return { ...result, date, seed: dailySeed(user, date), pool: count.total };
+}
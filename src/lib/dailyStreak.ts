@@ -0,0 +1,47 @@
+"use client";
+/**
+ * The daily-spin streak: days in a row the user opened their track of the
+ * day (see daily.ts), kept in localStorage. Apart from daily.ts so the
+ * server can import that without React.
+ */
+
+import { useEffect, useState } from "react";
+import { dailyDate, shiftDate } from "@/lib/daily";
+import { readStored, writeStored } from "@/lib/storage";
+
+export type DailyStreak = {
+  /** Days in a row up to the last visit */
+  current: number;
+  best: number;
+  /** Date of the last visit */
+  last: string | null;
+};
+
+const NO_STREAK: DailyStreak = { current: 0, best: 0, last: null };
+
+const streakKey = (user: string) => `slotfm:dailyStreak:${user.toLowerCase()}`;
+
+/** Records today's visit for `user` and returns the updated streak. */
+export function useDailyStreak(user: string) {
+  const [streak, setStreak] = useState<DailyStreak>(NO_STREAK);
+
+  useEffect(() => {
+    const today = dailyDate();
+    const stored = readStored<DailyStreak>(streakKey(user), NO_STREAK);
+    if (stored.last === today) {
+      setStreak(stored);
+      return;
+    }
+    const current =
+      stored.last === shiftDate(today, -1) ? stored.current + 1 : 1;
+    const next = {
+      current,
+      best: Math.max(stored.best, current),
+      last: today,
+    };
+    writeStored(streakKey(user), next);
+    setStreak(next);
+  }, [user]);
+
+  return streak;
+}
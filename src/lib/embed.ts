@@ -0,0 +1,122 @@
+/**
+ * The embeddable spin widget (app/embed): its query options, the iframe
+ * snippet that loads it, and the postMessage protocol it speaks with the
+ * host page.
+ *
+ * Options: `user` (required), `theme` (dark | light), `reels` (the fewest
+ * reels shown; a bigger history grows more) and `autoplay` (spin as soon
+ * as the widget loads).
+ *
+ * Messages are plain objects with a `slotfm:`-prefixed `type`. The host
+ * posts `{ type: "slotfm:spin" }` to the iframe to spin; the widget posts
+ * `slotfm:ready` once it listens, `slotfm:spin` when a spin starts (from
+ * either side), then `slotfm:result` or `slotfm:error`.
+ *
+ * Client-safe: the widget and the snippet generator share it.
+ */
+
+import { DEFAULT_REEL_COUNT } from "@/lib/reels";
+import { isLastFmUsername } from "@/lib/validation";
+
+export const EMBED_THEMES = ["dark", "light"] as const;
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+export const MAX_EMBED_REELS = 9;
+
+/** Room for the reels, a compact card and the spin button. */
+export const EMBED_WIDTH = 360;
+export const EMBED_HEIGHT = 320;
+
+export type EmbedOptions = {
+  user: string;
+  theme: EmbedTheme;
+  reels: number;
+  autoplay: boolean;
+};
+
+export const DEFAULT_EMBED_OPTIONS: Omit<EmbedOptions, "user"> = {
+  theme: "dark",
+  reels: DEFAULT_REEL_COUNT,
+  autoplay: false,
+};
+
+const isEmbedTheme = (value: string): value is EmbedTheme =>
+  (EMBED_THEMES as readonly string[]).includes(value);
+
+/** Reads the widget's options; a bad `user` is an error, the rest fall back. */
+export function parseEmbedOptions(
+  params: URLSearchParams
+): EmbedOptions | { error: string } {
+  const user = params.get("user")?.trim() ?? "";
+  if (!user) return { error: "Missing required parameter: user" };
+  if (!isLastFmUsername(user)) return { error: "Invalid Last.fm username" };
+
+  const theme = params.get("theme") ?? "";
+  const reels = Math.floor(Number(params.get("reels")));
+  const autoplay = params.get("autoplay");
+  return {
+    user,
+    theme: isEmbedTheme(theme) ? theme : DEFAULT_EMBED_OPTIONS.theme,
+    reels:
+      reels >= 1 && reels <= MAX_EMBED_REELS
+        ? reels
+        : DEFAULT_EMBED_OPTIONS.reels,
+    autoplay:
+      autoplay === null
+        ? DEFAULT_EMBED_OPTIONS.autoplay
+        : autoplay === "" || autoplay === "1" || autoplay === "true",
+  };
+}
+
+/** Path of the widget, leaving defaults out. */
+export function embedPath({ user, theme, reels, autoplay }: EmbedOptions) {
+  const params = new URLSearchParams({ user });
+  if (theme !== DEFAULT_EMBED_OPTIONS.theme) params.set("theme", theme);
+  if (reels !== DEFAULT_EMBED_OPTIONS.reels) params.set("reels", String(reels));
+  if (autoplay) params.set("autoplay", "1");
+  return `/embed?${params.toString()}`;
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+/** HTML that embeds the widget served from `origin`. */
+export function embedSnippet(origin: string, options: EmbedOptions) {
+  const src = escapeAttribute(origin + embedPath(options));
+  const title = escapeAttribute(`${options.user}'s SlotFM`);
+  return (
+    `<iframe src="${src}" title="${title}" width="${EMBED_WIDTH}" ` +
+    `height="${EMBED_HEIGHT}" style="border:0;border-radius:12px" ` +
+    `loading="lazy"></iframe>`
+  );
+}
+
+/** A spin result as posted to the host page. */
+export type EmbedResult = {
+  user: string;
+  artist: string;
+  name: string;
+  album: string;
+  /** Scrobble index, counted from the oldest */
+  n: number | null;
+  uts: number | null;
+  url: string | null;
+};
+
+/** Posted by the host page to the widget. */
+export type EmbedCommand = { type: "slotfm:spin" };
+
+/** Posted by the widget to the host page. */
+export type EmbedEvent =
+  | { type: "slotfm:ready"; user: string }
+  | { type: "slotfm:spin"; user: string }
+  | { type: "slotfm:result"; result: EmbedResult }
+  | { type: "slotfm:error"; user: string; error: string };
+
+export function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { type?: unknown }).type === "slotfm:spin"
+  );
+}
@@ -0,0 +1,46 @@
+import { cachedFetch, TTL } from "@/lib/cache";
+import { normalizeTitleForQuery } from "@/lib/spotify";
+import type { EnrichmentProvider } from "./index";
+
+type ItunesSearch = {
+  results: Array<{
+    trackId: number;
+    trackName: string;
+    artistName: string;
+    trackViewUrl: string;
+    previewUrl?: string;
+  }>;
+};
+
+/** Apple Music via the keyless iTunes Search API. */
+export const appleProvider: EnrichmentProvider = {
+  id: "apple",
+  async lookup({ artist, title }, { market }) {
+    const params = new URLSearchParams({
+      term: `${artist} ${normalizeTitleForQuery(title)}`,
+      media: "music",
+      entity: "song",
+      limit: "5",
+      country: market,
+    });
+    const resp = await cachedFetch(
+      `https://itunes.apple.com/search?${params}`,
+      TTL.serviceLookup
+    );
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as ItunesSearch;
+    // The search is fuzzy; prefer a result by the same artist.
+    const wanted = artist.toLowerCase();
+    const t =
+      data.results?.find((r) => r.artistName?.toLowerCase().includes(wanted)) ??
+      data.results?.[0];
+    if (!t) return null;
+    return {
+      id: String(t.trackId),
+      url: t.trackViewUrl,
+      preview: t.previewUrl ?? null,
+      name: t.trackName,
+      artists: [t.artistName],
+    };
+  },
+};
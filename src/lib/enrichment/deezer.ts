@@ -0,0 +1,39 @@
+import { cachedFetch, TTL } from "@/lib/cache";
+import { normalizeTitleForQuery } from "@/lib/spotify";
+import type { EnrichmentProvider } from "./index";
+
+type DeezerSearch = {
+  data?: Array<{
+    id: number;
+    title: string;
+    link: string;
+    preview?: string;
+    artist: { name: string };
+  }>;
+};
+
+/** Deezer's public search API (no key, no market filter). */
+export const deezerProvider: EnrichmentProvider = {
+  id: "deezer",
+  async lookup({ artist, title }) {
+    const params = new URLSearchParams({
+      q: `artist:"${artist}" track:"${normalizeTitleForQuery(title)}"`,
+      limit: "1",
+    });
+    const resp = await cachedFetch(
+      `https://api.deezer.com/search?${params}`,
+      TTL.serviceLookup
+    );
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as DeezerSearch;
+    const t = data.data?.[0];
+    if (!t) return null;
+    return {
+      id: String(t.id),
+      url: t.link,
+      preview: t.preview || null,
+      name: t.title,
+      artists: [t.artist?.name].filter(Boolean),
+    };
+  },
+};
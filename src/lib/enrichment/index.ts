@@ -0,0 +1,121 @@
+/**
+ * Server-side music-service enrichment for spin results.
+ *
+ * Each provider turns an artist/title pair into a link (plus id and preview
+ * where the service has them). Providers run in parallel and are
+ * best-effort: a failing one shows up as `null` in `links`, never as a
+ * failed request.
+ */
+
+import type { LastFmTrack } from "@/lib/lastfm";
+import { appleProvider } from "./apple";
+import { deezerProvider } from "./deezer";
+import { musicbrainzProvider } from "./musicbrainz";
+import {
+  DEFAULT_MARKET,
+  DEFAULT_PROVIDERS,
+  isProviderId,
+  ProviderId,
+  ProviderLink,
+  ProviderLinks,
+} from "./providers";
+import { spotifyProvider } from "./spotify";
+import { youtubeProvider } from "./youtube";
+
+export type EnrichmentQuery = {
+  artist: string;
+  title: string;
+  album?: string;
+  /** Track length when known (track.getInfo); sharpens Spotify matching */
+  durationMs?: number;
+};
+export type EnrichmentOptions = { providers: ProviderId[]; market: string };
+
+export interface EnrichmentProvider {
+  id: ProviderId;
+  lookup(
+    query: EnrichmentQuery,
+    options: { market: string }
+  ): Promise<ProviderLink | null>;
+}
+
+const REGISTRY: Record<ProviderId, EnrichmentProvider> = {
+  spotify: spotifyProvider,
+  apple: appleProvider,
+  youtube: youtubeProvider,
+  deezer: deezerProvider,
+  musicbrainz: musicbrainzProvider,
+};
+
+/**
+ * Reads `providers` (comma-separated) and `market` (ISO country) from the
+ * query string. Returns `{ error }` for unknown providers or a bad market.
+ */
+export function parseEnrichmentParams(
+  searchParams: URLSearchParams
+): EnrichmentOptions | { error: string } {
+  const rawProviders = searchParams.get("providers");
+  const providers = rawProviders
+    ? rawProviders.split(",").map((p) => p.trim().toLowerCase())
+    : DEFAULT_PROVIDERS;
+  const unknown = providers.filter((p) => p && !isProviderId(p));
+  if (unknown.length) {
+    return { error: `Unknown provider(s): ${unknown.join(", ")}` };
+  }
+
+  const market = (searchParams.get("market") ?? DEFAULT_MARKET).toUpperCase();
+  if (!/^[A-Z]{2}$/.test(market)) {
+    return { error: "Invalid 'market' value" };
+  }
+
+  return {
+    providers: [...new Set(providers.filter(isProviderId))],
+    market,
+  };
+}
+
+/**
+ * Looks the track up with every requested provider.
+ *
+ * `spotify` keeps the shape the page has always read
+ * (`{ id, url, preview_url, name, artists }`) alongside the `links` map.
+ * Pass `durationMs` when the caller already has it (recent-tracks pages
+ * don't carry one).
+ */
+export async function enrichTrack(
+  track: Pick<LastFmTrack, "artist" | "name" | "album">,
+  { providers, market }: EnrichmentOptions,
+  durationMs?: number
+) {
+  const query: EnrichmentQuery = {
+    artist: track.artist?.["#text"]?.trim() ?? "",
+    title: track.name?.trim() ?? "",
+    album: track.album?.["#text"]?.trim() || undefined,
+    durationMs,
+  };
+
+  const links: ProviderLinks = {};
+  if (query.artist && query.title) {
+    const results = await Promise.all(
+      providers.map((id) =>
+        REGISTRY[id].lookup(query, { market }).catch(() => null)
+      )
+    );
+    providers.forEach((id, i) => (links[id] = results[i]));
+  }
+
+  const s = links.spotify;
+  const spotify = s?.id
+    ? {
+        id: s.id,
+        url: s.url,
+        preview_url: s.preview,
+        name: s.name ?? query.title,
+        artists: s.artists ?? [],
+        confidence: s.confidence,
+        matchedBy: s.matchedBy,
+      }
+    : null;
+
+  return { spotify, links };
+}
@@ -0,0 +1,48 @@
+import { cachedFetch, TTL } from "@/lib/cache";
+import { normalizeTitleForQuery } from "@/lib/spotify";
+import type { EnrichmentProvider } from "./index";
+
+type RecordingSearch = {
+  recordings?: Array<{
+    id: string;
+    title: string;
+    "artist-credit"?: Array<{ name: string }>;
+  }>;
+};
+
+// MusicBrainz asks every client to identify itself.
+const USER_AGENT =
+  "slotfm/0.1 ( https://github.com/ericf1/last-fm-random-song )";
+
+/** Lucene phrase with quotes and backslashes escaped. */
+const phrase = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+/** MusicBrainz recording lookup: an id and canonical page, no audio. */
+export const musicbrainzProvider: EnrichmentProvider = {
+  id: "musicbrainz",
+  async lookup({ artist, title }) {
+    const params = new URLSearchParams({
+      query: `recording:${phrase(
+        normalizeTitleForQuery(title)
+      )} AND artist:${phrase(artist)}`,
+      fmt: "json",
+      limit: "1",
+    });
+    const resp = await cachedFetch(
+      `https://musicbrainz.org/ws/2/recording?${params}`,
+      TTL.serviceLookup,
+      { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } }
+    );
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as RecordingSearch;
+    const r = data.recordings?.[0];
+    if (!r) return null;
+    return {
+      id: r.id,
+      url: `https://musicbrainz.org/recording/${r.id}`,
+      preview: null,
+      name: r.title,
+      artists: r["artist-credit"]?.map((c) => c.name) ?? [],
+    };
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Music-service enrichment: provider ids and labels shared by the page and
+ * the API routes. The lookups themselves live server-side in ./index.ts.
+ */
+
+import type { MatchedBy } from "@/lib/trackMatch";
+
+export type ProviderId =
+  | "spotify"
+  | "apple"
+  | "youtube"
+  | "deezer"
+  | "musicbrainz";
+
+/** What a provider found for a track. `id` is null for search-page links. */
+export type ProviderLink = {
+  id: string | null;
+  url: string;
+  preview: string | null;
+  name?: string;
+  artists?: string[];
+  /** Scored providers: how sure the match is (see trackMatch.ts) */
+  confidence?: number;
+  matchedBy?: MatchedBy;
+};
+
+export type ProviderLinks = Partial<Record<ProviderId, ProviderLink | null>>;
+
+export const PROVIDERS: Array<{ id: ProviderId; label: string }> = [
+  { id: "spotify", label: "Spotify" },
+  { id: "apple", label: "Apple Music" },
+  { id: "youtube", label: "YouTube Music" },
+  { id: "deezer", label: "Deezer" },
+  { id: "musicbrainz", label: "MusicBrainz" },
+];
+
+/** MusicBrainz allows ~1 request/s, so it is opt-in. */
+export const DEFAULT_PROVIDERS: ProviderId[] = [
+  "spotify",
+  "apple",
+  "youtube",
+  "deezer",
+];
+
+export const DEFAULT_MARKET = "US";
+
+export function isProviderId(value: string): value is ProviderId {
+  return PROVIDERS.some((p) => p.id === value);
+}
+
+/** Preview audio URLs in provider order (Spotify first), for fallback. */
+export function previewUrls(links?: ProviderLinks) {
+  return PROVIDERS.map((p) => links?.[p.id]?.preview).filter(
+    (url): url is string => !!url
+  );
+}
+
+/** ISO 3166 country from a BCP 47 locale ("en-GB" → "GB"), else the default. */
+export function marketFromLocale(locale: string | undefined) {
+  const region = locale?.split("-").find((part) => /^[A-Z]{2}$/.test(part));
+  return region ?? DEFAULT_MARKET;
+}
@@ -0,0 +1,19 @@
+import { findSpotifyTrack } from "@/lib/spotify";
+import type { EnrichmentProvider } from "./index";
+
+export const spotifyProvider: EnrichmentProvider = {
+  id: "spotify",
+  async lookup(query, { market }) {
+    const match = await findSpotifyTrack(query, market);
+    if (!match) return null;
+    return {
+      id: match.id,
+      url: match.url,
+      preview: match.preview_url,
+      name: match.name,
+      artists: match.artists,
+      confidence: match.confidence,
+      matchedBy: match.matchedBy,
+    };
+  },
+};
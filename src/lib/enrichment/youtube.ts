@@ -0,0 +1,50 @@
+import { cachedFetch, TTL } from "@/lib/cache";
+import { normalizeTitleForQuery } from "@/lib/spotify";
+import type { EnrichmentProvider } from "./index";
+
+type YoutubeSearch = {
+  items?: Array<{ id: { videoId?: string }; snippet: { title: string } }>;
+};
+
+/**
+ * YouTube Music. With YOUTUBE_API_KEY set, resolves a video via the Data
+ * API; without it, links to a YouTube Music search so the button still works.
+ */
+export const youtubeProvider: EnrichmentProvider = {
+  id: "youtube",
+  async lookup({ artist, title }, { market }) {
+    const q = `${artist} ${normalizeTitleForQuery(title)}`;
+    const searchLink = {
+      id: null,
+      url: `https://music.youtube.com/search?${new URLSearchParams({ q })}`,
+      preview: null,
+    };
+
+    const key = process.env.YOUTUBE_API_KEY;
+    if (!key) return searchLink;
+
+    const params = new URLSearchParams({
+      part: "snippet",
+      type: "video",
+      videoCategoryId: "10", // Music
+      maxResults: "1",
+      regionCode: market,
+      q,
+      key,
+    });
+    const resp = await cachedFetch(
+      `https://www.googleapis.com/youtube/v3/search?${params}`,
+      TTL.serviceLookup
+    );
+    if (!resp.ok) return searchLink;
+    const data = (await resp.json()) as YoutubeSearch;
+    const videoId = data.items?.[0]?.id?.videoId;
+    if (!videoId) return searchLink;
+    return {
+      id: videoId,
+      url: `https://music.youtube.com/watch?v=${videoId}`,
+      preview: null,
+      name: data.items?.[0]?.snippet?.title,
+    };
+  },
+};
@@ -0,0 +1,250 @@
+/**
+ * Candidate sets for filtered spins (see filters.ts).
+ *
+ * With a local history index the pool is every matching scrobble, each
+ * counted once. Without one it is the user's library (see blend.ts'
+ * fetchLibrary) with each track weighted by its playcount, which keeps a
+ * pick close to uniform over scrobbles; album filters read the album's
+ * tracklist and each track's user playcount instead. Date ranges need the
+ * local index, since the library has no time axis.
+ *
+ * Tags are checked per artist with artist.getTopTags, most played artists
+ * first and at most MAX_TAG_ARTISTS of them, so a tag filter over a huge
+ * pool can miss artists in its long tail.
+ *
+ * Pools are cached briefly so the count a spin is bounded by and the pick
+ * that follows see the same candidates.
+ *
+ * Server-only.
+ */
+
+import { fetchLibrary } from "@/lib/blend";
+import { cached, TTL } from "@/lib/cache";
+import { SpinFilters, filterParams, textMatcher } from "@/lib/filters";
+import { getLocalHistory } from "@/lib/historyStore";
+import {
+  buildLastFmUrl,
+  fetchTrackInfo,
+  hasTimeRange,
+  LastFmImage,
+  LastFmTrack,
+  TimeRange,
+} from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+
+const MAX_TAG_ARTISTS = 150;
+// artist.getTopTags counts are relative (0-100); below this a tag is noise
+const MIN_TAG_COUNT = 10;
+const TAG_BATCH = 8;
+
+type Candidate = { track: LastFmTrack; weight: number };
+
+export type FilteredPool = {
+  candidates: Candidate[];
+  /** Running weight totals, for picking by index */
+  ends: number[];
+  /** Sum of weights: the size of the index space */
+  total: number;
+  source: "local" | "live";
+};
+
+type Failure = { error: string; status: number };
+
+/** An artist's well-supported tags, lowercased. Empty on any failure. */
+async function tagsOf(apiKey: string, artist: string) {
+  type Tag = { name: string; count: number | string };
+  const result = await lastFmGet<{ toptags?: { tag?: Tag | Tag[] } }>(
+    buildLastFmUrl("artist.getTopTags", apiKey, { artist, autocorrect: 1 }),
+    TTL.artistTags
+  );
+  if ("error" in result) return new Set<string>();
+  const raw = result.data.toptags?.tag;
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return new Set(
+    list
+      .filter((t) => Number(t.count) >= MIN_TAG_COUNT)
+      .map((t) => t.name.toLowerCase())
+  );
+}
+
+async function filterByTag(
+  apiKey: string,
+  candidates: Candidate[],
+  tag: string
+) {
+  const weightByArtist = new Map<string, { name: string; weight: number }>();
+  for (const { track, weight } of candidates) {
+    const key = track.artist["#text"].toLowerCase();
+    const entry = weightByArtist.get(key);
+    if (entry) entry.weight += weight;
+    else weightByArtist.set(key, { name: track.artist["#text"], weight });
+  }
+  const artists = [...weightByArtist.values()]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_TAG_ARTISTS);
+
+  const wanted = tag.toLowerCase();
+  const tagged = new Set<string>();
+  for (let i = 0; i < artists.length; i += TAG_BATCH) {
+    const batch = artists.slice(i, i + TAG_BATCH);
+    const tags = await Promise.all(batch.map((a) => tagsOf(apiKey, a.name)));
+    batch.forEach((a, j) => {
+      if (tags[j].has(wanted)) tagged.add(a.name.toLowerCase());
+    });
+  }
+  return candidates.filter((c) =>
+    tagged.has(c.track.artist["#text"].toLowerCase())
+  );
+}
+
+/** Live album pool: the tracklist, weighted by the user's plays. */
+async function albumCandidates(
+  user: string,
+  apiKey: string,
+  artist: string,
+  album: string
+): Promise<Candidate[] | Failure> {
+  type AlbumTrack = { name: string; url?: string };
+  const result = await lastFmGet<{
+    album?: {
+      artist?: string;
+      name?: string;
+      image?: LastFmImage;
+      tracks?: { track?: AlbumTrack | AlbumTrack[] };
+    };
+  }>(
+    buildLastFmUrl("album.getInfo", apiKey, { artist, album, autocorrect: 1 }),
+    TTL.catalog
+  );
+  if ("error" in result) return result;
+  const data = result.data;
+  // A one-track album comes back as an object rather than an array.
+  const raw = data.album?.tracks?.track;
+  const tracks = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const infos = await Promise.all(
+    tracks.map((t) => fetchTrackInfo(apiKey, artist, t.name, user))
+  );
+  return tracks.map((t, i) => ({
+    track: {
+      artist: { "#text": data?.album?.artist ?? artist },
+      name: t.name,
+      album: { "#text": data?.album?.name ?? album },
+      image: data?.album?.image ?? [],
+      url: t.url,
+    },
+    weight: Number(infos[i]?.userplaycount) || 0,
+  }));
+}
+
+async function resolvePool(
+  user: string,
+  apiKey: string,
+  filters: SpinFilters,
+  range: TimeRange
+): Promise<FilteredPool | Failure> {
+  const want = filterParams(filters);
+  const matches = textMatcher(filters);
+  let candidates: Candidate[];
+  let source: FilteredPool["source"];
+
+  const local = await getLocalHistory(user);
+  if (local) {
+    source = "local";
+    candidates = local
+      .select(range, matches)
+      .map((track) => ({ track, weight: 1 }));
+  } else {
+    source = "live";
+    if (hasTimeRange(range)) {
+      return {
+        error: "Date ranges with filters need the local history index",
+        status: 400,
+      };
+    }
+    if (want.album) {
+      if (!want.artist) {
+        return {
+          error: "Album filters need an artist (or the local history index)",
+          status: 400,
+        };
+      }
+      const album = await albumCandidates(
+        user,
+        apiKey,
+        want.artist,
+        want.album
+      );
+      if ("error" in album) return album;
+      candidates = album;
+    } else {
+      const library = await fetchLibrary(user, apiKey);
+      if ("error" in library) return library;
+      candidates = [...library.values()].map((t) => ({
+        track: {
+          artist: { "#text": t.artist },
+          name: t.name,
+          album: { "#text": "" },
+          image: [],
+        },
+        weight: t.playcount,
+      }));
+    }
+    candidates = candidates.filter(
+      (c) =>
+        c.weight > 0 &&
+        matches({
+          artist: c.track.artist["#text"],
+          name: c.track.name,
+          album: c.track.album["#text"],
+        })
+    );
+  }
+
+  if (want.tag) candidates = await filterByTag(apiKey, candidates, want.tag);
+
+  const ends: number[] = [];
+  let total = 0;
+  for (const c of candidates) {
+    total += c.weight;
+    ends.push(total);
+  }
+  return { candidates, ends, total, source };
+}
+
+/**
+ * The candidates of a filtered spin for `user`.
+ * Failures come back as `{ error, status }` ready for a JSON response.
+ */
+export async function getFilteredPool(
+  user: string,
+  apiKey: string,
+  filters: SpinFilters,
+  range: TimeRange
+): Promise<FilteredPool | Failure> {
+  const key = JSON.stringify([
+    user.toLowerCase(),
+    filterParams(filters),
+    range.from,
+    range.to,
+  ]);
+  // Local pools can hold whole histories: keep them in this process only
+  return cached(
+    `pool:filtered:${key}`,
+    (pool) => ("error" in pool ? 0 : TTL.spinPool),
+    () => resolvePool(user, apiKey, filters, range),
+    { sharedStore: false }
+  );
+}
+
+/** The candidate covering 1-based index `n` of the pool's weight space. */
+export function pickFromPool(pool: FilteredPool, n: number) {
+  if (!Number.isInteger(n) || n < 1 || n > pool.total) return null;
+  let lo = 0;
+  let hi = pool.ends.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (pool.ends[mid] < n) lo = mid + 1;
+    else hi = mid;
+  }
+  return pool.candidates[lo] ?? null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Spin filters: narrow a scrobble spin to an artist, an album, a title
+ * search or a Last.fm tag, minus excluded terms.
+ *
+ * Client-safe: shared by the filter bar and the filtered-spin routes (see
+ * filteredPool.ts). Text matching is case-insensitive; artist and album
+ * must match exactly, the title only needs to contain the search.
+ */
+
+export type SpinFilters = {
+  artist: string;
+  album: string;
+  title: string;
+  tag: string;
+  /** Comma-separated terms; drops anything whose artist, album or title
+   * contains one of them */
+  exclude: string;
+};
+
+export const FILTER_KEYS = [
+  "artist",
+  "album",
+  "title",
+  "tag",
+  "exclude",
+] as const;
+
+export const EMPTY_FILTERS: SpinFilters = {
+  artist: "",
+  album: "",
+  title: "",
+  tag: "",
+  exclude: "",
+};
+
+export function hasFilters(filters: SpinFilters) {
+  return FILTER_KEYS.some((key) => filters[key].trim() !== "");
+}
+
+/** The non-empty filters, trimmed, as query-string entries. */
+export function filterParams(filters: SpinFilters) {
+  const params: Record<string, string> = {};
+  for (const key of FILTER_KEYS) {
+    const value = filters[key].trim();
+    if (value) params[key] = value;
+  }
+  return params;
+}
+
+export function readFilters(searchParams: URLSearchParams): SpinFilters {
+  const filters = { ...EMPTY_FILTERS };
+  for (const key of FILTER_KEYS) {
+    filters[key] = searchParams.get(key)?.trim() ?? "";
+  }
+  return filters;
+}
+
+export function excludedTerms(filters: SpinFilters) {
+  return filters.exclude
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Predicate for the text filters (tags need a lookup and are checked
+ * separately). Built once per pool, since it runs over whole histories.
+ */
+export function textMatcher(filters: SpinFilters) {
+  const want = filterParams(filters);
+  const artist = want.artist?.toLowerCase();
+  const album = want.album?.toLowerCase();
+  const title = want.title?.toLowerCase();
+  const excluded = excludedTerms(filters);
+  return (t: { artist: string; name: string; album: string }) => {
+    const a = t.artist.toLowerCase();
+    const n = t.name.toLowerCase();
+    const al = t.album.toLowerCase();
+    if (artist && a !== artist) return false;
+    if (album && al !== album) return false;
+    if (title && !n.includes(title)) return false;
+    return !excluded.some(
+      (term) => a.includes(term) || n.includes(term) || al.includes(term)
+    );
+  };
+}
+
+/** Short summary for status lines: "Radiohead · tagged shoegaze". */
+export function describeFilters(filters: SpinFilters) {
+  const want = filterParams(filters);
+  return [
+    want.artist,
+    want.album && `on ${want.album}`,
+    want.title && `"${want.title}"`,
+    want.tag && `tagged ${want.tag}`,
+    want.exclude && `not ${want.exclude}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
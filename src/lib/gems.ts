@@ -0,0 +1,55 @@
+/**
+ * Client-side settings and formatting for the "forgotten gems" spin mode.
+ */
+
+import type { ResolvedRange } from "@/lib/spinRange";
+
+export type GemSettings = {
+  /** Only tracks not scrobbled for at least this many years */
+  olderThanYears: number;
+  /** …and scrobbled at most this many times overall */
+  maxPlays: number;
+};
+
+export type GemReason = { lastPlayed: number; playcount: number };
+
+export const DEFAULT_GEM_SETTINGS: GemSettings = {
+  olderThanYears: 2,
+  maxPlays: 5,
+};
+
+/**
+ * History window the gem search indexes: everything up to the cutoff.
+ * The cutoff is day-aligned so repeated spins share cached pages.
+ */
+export function gemRange(
+  settings: GemSettings,
+  now = new Date()
+): ResolvedRange {
+  const cutoff = new Date(
+    now.getFullYear() - settings.olderThanYears,
+    now.getMonth(),
+    now.getDate()
+  );
+  return {
+    from: 0,
+    to: Math.floor(cutoff.getTime() / 1000) - 1,
+    label: cutoff.toLocaleDateString(undefined, {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+  };
+}
+
+/** "last played 3 years ago, 4 plays" */
+export function describeGem(gem: GemReason, now = Date.now()) {
+  const rtf = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  const days = (gem.lastPlayed * 1000 - now) / 86_400_000;
+  const ago =
+    Math.abs(days) >= 365
+      ? rtf.format(Math.round(days / 365), "year")
+      : rtf.format(Math.round(days / 30), "month");
+  const plays = `${gem.playcount} ${gem.playcount === 1 ? "play" : "plays"}`;
+  return `last played ${ago}, ${plays}`;
+}
@@ -0,0 +1,432 @@
+/**
+ * File-backed local index of a user's complete scrobble history.
+ *
+ * Layout under SLOTFM_DATA_DIR (default `.data/history`), per user:
+ *   scrobbles.jsonl  one compact scrobble per line, oldest first
+ *   meta.json        sync bookkeeping (see SyncStatus)
+ *
+ * Because rows are oldest-first, the get-nth-song index `n` (counted from
+ * the oldest scrobble) is simply row n. The first import pages
+ * user.getRecentTracks backwards from its last page with `to` pinned to the
+ * start time, so pages don't shift under it and it can resume after a
+ * crash; later syncs only fetch scrobbles newer than the last stored `uts`,
+ * with `to` pinned the same way. Requests go through lastFmGet (uncached),
+ * so they share the API key's budget and Last.fm's errors fail the run.
+ *
+ * Loaded indexes stay in memory for the MAX_LOADED most recently used
+ * users (and while a run is going); users without one aren't remembered.
+ *
+ * Server-only (node:fs).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  buildLastFmUrl,
+  LastFmTrack,
+  PAGE_LIMIT,
+  readRecentTracks,
+  TimeRange,
+  trackKey,
+} from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+
+/** [uts, artist, title, album, imageUrl, url] */
+type StoredScrobble = [number, string, string, string, string, string];
+
+export type SyncStatus = {
+  user: string;
+  state: "empty" | "importing" | "syncing" | "idle" | "error";
+  /** Pages fetched by the current (or last) import/sync run */
+  pagesDone: number;
+  /** Pages that run needs in total, when known */
+  totalPages: number | null;
+  /** Scrobbles stored locally */
+  count: number;
+  /** uts of the newest stored scrobble */
+  lastUts: number | null;
+  /** ms timestamp of the last completed import/sync */
+  lastSyncedAt: number | null;
+  /** Upper bound of the initial import; set until that import completes */
+  importTo: number | null;
+  error?: string;
+};
+
+type History = { status: SyncStatus; scrobbles: StoredScrobble[] };
+
+const DATA_DIR =
+  process.env.SLOTFM_DATA_DIR ?? path.join(process.cwd(), ".data", "history");
+
+// Be gentle with the shared API key while importing thousands of pages.
+const PAGE_DELAY_MS = 250;
+// Full histories run to tens of MB each
+const MAX_LOADED = 8;
+
+// Least recently used first
+const histories = new Map<string, History>();
+const running = new Map<string, Promise<void>>();
+
+const keyFor = (user: string) => user.toLowerCase();
+const dirFor = (user: string) =>
+  path.join(DATA_DIR, encodeURIComponent(keyFor(user)));
+
+function emptyStatus(user: string): SyncStatus {
+  return {
+    user,
+    state: "empty",
+    pagesDone: 0,
+    totalPages: null,
+    count: 0,
+    lastUts: null,
+    lastSyncedAt: null,
+    importTo: null,
+  };
+}
+
+/** Keeps `history` as the most recently used, evicting idle ones. */
+function remember(key: string, history: History) {
+  histories.delete(key);
+  histories.set(key, history);
+  for (const old of histories.keys()) {
+    if (histories.size <= MAX_LOADED) break;
+    if (!running.has(old) && old !== key) histories.delete(old);
+  }
+}
+
+/** Replaces `file` with `lines` in one step (write aside, then rename). */
+async function rewrite(file: string, lines: string[]) {
+  // Unique, so two loads racing here don't write into the same file
+  const temp = `${file}.${process.pid}-${Date.now()}-${Math.random()}.tmp`;
+  await fs.writeFile(temp, lines.map((l) => l + "\n").join(""));
+  await fs.rename(temp, file);
+}
+
+async function load(user: string): Promise<History> {
+  const key = keyFor(user);
+  const cached = histories.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+
+  const dir = dirFor(user);
+  let status = emptyStatus(user);
+  let scrobbles: StoredScrobble[] = [];
+  try {
+    status = JSON.parse(await fs.readFile(path.join(dir, "meta.json"), "utf8"));
+    const file = path.join(dir, "scrobbles.jsonl");
+    const lines = (await fs.readFile(file, "utf8")).split("\n").filter(Boolean);
+    // Rows appended after the last meta write (crash mid-page) are cut from
+    // the file too, or the page fetched again on resume would land after them
+    if (lines.length > status.count) {
+      await rewrite(file, lines.slice(0, status.count));
+    }
+    scrobbles = lines.slice(0, status.count).map((l) => JSON.parse(l));
+    // A run that was interrupted by a restart is no longer running.
+    if (status.state === "importing" || status.state === "syncing") {
+      status.state = status.importTo !== null ? "empty" : "idle";
+    }
+  } catch {
+    // No local index yet (or unreadable): start empty, and don't keep it
+    return { status: emptyStatus(user), scrobbles: [] };
+  }
+
+  // A concurrent load may have got there first
+  const history = histories.get(key) ?? { status, scrobbles };
+  remember(key, history);
+  return history;
+}
+
+async function persist(user: string, history: History, rows: StoredScrobble[]) {
+  const dir = dirFor(user);
+  await fs.mkdir(dir, { recursive: true });
+  if (rows.length) {
+    await fs.appendFile(
+      path.join(dir, "scrobbles.jsonl"),
+      rows.map((r) => JSON.stringify(r)).join("\n") + "\n"
+    );
+  }
+  history.scrobbles.push(...rows);
+  history.status.count = history.scrobbles.length;
+  history.status.lastUts = history.scrobbles.at(-1)?.[0] ?? null;
+  await fs.writeFile(
+    path.join(dir, "meta.json"),
+    JSON.stringify(history.status)
+  );
+}
+
+function toStored(t: LastFmTrack): StoredScrobble | null {
+  const uts = Number(t.date?.uts);
+  if (isNaN(uts)) return null;
+  const image =
+    t.image?.find((i) => i.size === "extralarge")?.["#text"] ??
+    t.image?.at(-1)?.["#text"] ??
+    "";
+  return [
+    uts,
+    t.artist?.["#text"] ?? "",
+    t.name ?? "",
+    t.album?.["#text"] ?? "",
+    image,
+    t.url ?? "",
+  ];
+}
+
+const IMAGE_SIZES = [
+  ["small", "34s"],
+  ["medium", "64s"],
+  ["large", "174s"],
+  ["extralarge", "300x300"],
+] as const;
+
+const dateFormat = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+  timeZone: "UTC",
+});
+
+/** Rebuilds the user.getRecentTracks shape the routes return. */
+function fromStored([uts, artist, name, album, image, url]: StoredScrobble) {
+  const track: LastFmTrack = {
+    artist: { "#text": artist },
+    name,
+    album: { "#text": album },
+    // Last.fm art URLs differ only in the size segment.
+    image: IMAGE_SIZES.map(([size, segment]) => ({
+      size,
+      "#text": image.replace(/\/i\/u\/[^/]+\//, `/i/u/${segment}/`),
+    })),
+    // Same "19 Oct 2026, 14:03" (UTC) text Last.fm sends.
+    date: { uts: String(uts), "#text": dateFormat.format(uts * 1000) },
+    url: url || undefined,
+  };
+  return track;
+}
+
+/** First row index whose uts is >= `uts` (rows are sorted by uts). */
+function lowerBound(rows: StoredScrobble[], uts: number) {
+  let lo = 0;
+  let hi = rows.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (rows[mid][0] < uts) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function bounds(rows: StoredScrobble[], range: TimeRange) {
+  const start = range.from !== undefined ? lowerBound(rows, range.from) : 0;
+  const end =
+    range.to !== undefined ? lowerBound(rows, range.to + 1) : rows.length;
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Read access to a user's local index, or null when none has finished
+ * importing (callers then fall back to the live API).
+ */
+export async function getLocalHistory(user: string) {
+  const history = await load(user);
+  if (
+    history.status.lastSyncedAt === null ||
+    history.status.importTo !== null
+  ) {
+    return null;
+  }
+  const rows = history.scrobbles;
+  return {
+    /** Scrobbles inside `range` (all of them by default). */
+    count(range: TimeRange = {}) {
+      const { start, end } = bounds(rows, range);
+      return end - start;
+    },
+    /** 1-based `n`, counted from the oldest scrobble inside `range`. */
+    at(n: number, range: TimeRange = {}) {
+      const { start, end } = bounds(rows, range);
+      const row = rows[start + n - 1];
+      return n >= 1 && start + n - 1 < end && row ? fromStored(row) : null;
+    },
+    firstUts: rows[0]?.[0] ?? null,
+    /** Scrobbles inside `range` for which `keep` holds, oldest first. */
+    select(
+      range: TimeRange,
+      keep: (t: { artist: string; name: string; album: string }) => boolean
+    ) {
+      const { start, end } = bounds(rows, range);
+      const picked: LastFmTrack[] = [];
+      for (let i = start; i < end; i++) {
+        const [, artist, name, album] = rows[i];
+        if (keep({ artist, name, album })) picked.push(fromStored(rows[i]));
+      }
+      return picked;
+    },
+    /**
+     * Plays per distinct track (keyed by trackKey), the local equivalent
+     * of the user's all-time user.getTopTracks.
+     */
+    playcounts() {
+      const counts = new Map<
+        string,
+        { artist: string; name: string; playcount: number }
+      >();
+      for (const [, artist, name] of rows) {
+        const key = trackKey(artist, name);
+        const entry = counts.get(key);
+        if (entry) entry.playcount++;
+        else counts.set(key, { artist, name, playcount: 1 });
+      }
+      return counts;
+    },
+  };
+}
+
+export async function getSyncStatus(user: string): Promise<SyncStatus> {
+  return { ...(await load(user)).status };
+}
+
+async function fetchRecentPage(
+  user: string,
+  apiKey: string,
+  params: { page: number; from?: number; to?: number }
+) {
+  const url = buildLastFmUrl("user.getRecentTracks", apiKey, {
+    user,
+    limit: PAGE_LIMIT,
+    ...params,
+  });
+  // Never cached: a run must see the pages as they are now
+  const result = await lastFmGet<{
+    recenttracks?: { "@attr"?: { totalPages?: string } };
+  }>(url, 0);
+  if ("error" in result) throw new Error(result.error);
+  // Without it an empty page would pass for an empty history
+  const totalPages = Number(result.data.recenttracks?.["@attr"]?.totalPages);
+  if (isNaN(totalPages)) {
+    throw new Error("Unexpected response from Last.fm (no page count)");
+  }
+  return { ...readRecentTracks(result.data), totalPages };
+}
+
+const pause = () => new Promise((r) => setTimeout(r, PAGE_DELAY_MS));
+
+/** Oldest-first rows of a newest-first page, limited to uts > `after`. */
+function pageRows(tracks: LastFmTrack[], after = -Infinity) {
+  return tracks
+    .map(toStored)
+    .filter((r): r is StoredScrobble => r !== null && r[0] > after)
+    .reverse();
+}
+
+async function runImport(user: string, apiKey: string, history: History) {
+  const status = history.status;
+  if (status.importTo === null) {
+    // Fresh import; otherwise resume after the pages already persisted.
+    status.importTo = Math.floor(Date.now() / 1000);
+    status.pagesDone = 0;
+  }
+  status.state = "importing";
+
+  // With `to` pinned, pages stay put while new scrobbles arrive.
+  const first = await fetchRecentPage(user, apiKey, {
+    page: 1,
+    to: status.importTo,
+  });
+  status.totalPages = first.totalPages;
+
+  for (let page = status.totalPages - status.pagesDone; page >= 1; page--) {
+    const { tracks } =
+      page === 1
+        ? first
+        : await fetchRecentPage(user, apiKey, { page, to: status.importTo });
+    status.pagesDone++;
+    await persist(user, history, pageRows(tracks));
+    if (page > 1) await pause();
+  }
+
+  status.importTo = null;
+}
+
+const rowKey = ([uts, artist, title]: StoredScrobble) =>
+  `${uts}\u0000${trackKey(artist, title)}`;
+
+async function runSync(user: string, apiKey: string, history: History) {
+  const status = history.status;
+  const after = status.lastUts ?? 0;
+  // Pinned like the import's, so pages don't shift as scrobbles arrive;
+  // later ones are the next sync's
+  const to = Math.floor(Date.now() / 1000);
+  status.state = "syncing";
+  status.pagesDone = 0;
+  status.totalPages = null;
+
+  // Newest first; buffer everything, then append oldest-first in one go.
+  const fresh: StoredScrobble[] = [];
+  for (let page = 1; ; page++) {
+    const { tracks, totalPages } = await fetchRecentPage(user, apiKey, {
+      page,
+      from: after + 1,
+      to,
+    });
+    status.totalPages = totalPages;
+    status.pagesDone = page;
+    fresh.unshift(...pageRows(tracks, after));
+    if (page >= totalPages) break;
+    await pause();
+  }
+  // Row n must stay scrobble n: never store one twice
+  const seen = new Set<string>();
+  await persist(
+    user,
+    history,
+    fresh.filter((row) => {
+      const key = rowKey(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+  );
+}
+
+/**
+ * Starts (or resumes) the initial import, or an incremental sync once the
+ * import is complete. Returns immediately; poll getSyncStatus for progress.
+ */
+export async function startSync(user: string, apiKey: string) {
+  const key = keyFor(user);
+  if (!running.has(key)) {
+    const history = await load(user);
+    // Two calls may have raced through the load: one run per user
+    if (running.has(key)) return getSyncStatus(user);
+    // Kept (even for a first import) until the run is done
+    remember(key, history);
+    const job = (async () => {
+      try {
+        history.status.error = undefined;
+        if (
+          history.status.lastSyncedAt === null ||
+          history.status.importTo !== null
+        ) {
+          await runImport(user, apiKey, history);
+        }
+        await runSync(user, apiKey, history);
+        history.status.state = "idle";
+        history.status.lastSyncedAt = Date.now();
+      } catch (error) {
+        console.error(`History sync failed for ${user}:`, error);
+        history.status.state = "error";
+        history.status.error =
+          error instanceof Error ? error.message : String(error);
+      } finally {
+        await persist(user, history, []).catch(() => {});
+        running.delete(key);
+      }
+    })();
+    running.set(key, job);
+  }
+  return getSyncStatus(user);
+}
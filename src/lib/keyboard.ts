@@ -0,0 +1,19 @@
+/**
+ * True while the user is typing in a field or has text selected, so global
+ * keyboard shortcuts should stay out of the way.
+ */
+export function isEditingOrSelecting() {
+  const ae = document.activeElement as HTMLElement | null;
+  const isFormField =
+    ae &&
+    (ae.tagName === "INPUT" ||
+      ae.tagName === "TEXTAREA" ||
+      (ae as HTMLInputElement).isContentEditable ||
+      ae.closest('[contenteditable="true"]'));
+
+  const sel = window.getSelection?.();
+  const hasRangeSelection =
+    !!sel && sel.type === "Range" && sel.toString().length > 0;
+
+  return Boolean(isFormField || hasRangeSelection);
+}
@@ -0,0 +1,331 @@
+/**
+ * Shared Last.fm helpers used by the API routes.
+ *
+ * Server-only: reads LASTFM_API_KEY from the environment at call sites.
+ * LASTFM_API_ROOT overrides the API endpoint (e.g. a local stub server).
+ */
+
+import { TTL } from "@/lib/cache";
+import { LastFmFailure, lastFmGet } from "@/lib/lastfmClient";
+
+export const LASTFM_API_ROOT =
+  process.env.LASTFM_API_ROOT ?? "https://ws.audioscrobbler.com/2.0/";
+
+export type LastFmImage = Array<{ "#text": string; size: string }>;
+
+/** A track as returned by user.getRecentTracks. */
+export type LastFmTrack = {
+  artist: { "#text": string };
+  name: string;
+  album: { "#text": string };
+  image: LastFmImage;
+  date?: { uts: string; "#text": string };
+  url?: string;
+};
+
+/** A recent-tracks entry; the live one carries `@attr.nowplaying`. */
+type RecentTrack = LastFmTrack & { "@attr"?: { nowplaying?: string } };
+
+/**
+ * Reads a user.getRecentTracks page, dropping the now-playing entry Last.fm
+ * prepends to page 1. That entry has no timestamp and is not part of
+ * `@attr.total`, so keeping it shifts every index on the page by one.
+ */
+export function readRecentTracks(data: unknown): {
+  tracks: LastFmTrack[];
+  total: number | null;
+} {
+  const recent = (data as { recenttracks?: Record<string, unknown> } | null)
+    ?.recenttracks;
+  const raw = recent?.track;
+  const all = (Array.isArray(raw) ? raw : raw ? [raw] : []) as RecentTrack[];
+  const tracks = all.filter((t) => t["@attr"]?.nowplaying !== "true");
+  const total = Number((recent?.["@attr"] as { total?: string })?.total);
+  return { tracks, total: isNaN(total) ? null : total };
+}
+
+/** Case-insensitive identity of a track across users and sources. */
+export function trackKey(artist: string, name: string) {
+  return `${artist.toLowerCase()}\u0000${name.toLowerCase()}`;
+}
+
+/** Unix-seconds window understood by user.getRecentTracks (`from`/`to`). */
+export type TimeRange = { from?: number; to?: number };
+
+/**
+ * Builds a Last.fm API URL for `method`, skipping undefined params.
+ */
+export function buildLastFmUrl(
+  method: string,
+  apiKey: string,
+  params: Record<string, string | number | undefined>
+) {
+  const url = new URL(LASTFM_API_ROOT);
+  url.searchParams.set("method", method);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+  url.searchParams.set("api_key", apiKey);
+  url.searchParams.set("format", "json");
+  return url;
+}
+
+/**
+ * Reads optional `from`/`to` (unix seconds) from the query string.
+ * Returns `{ error }` when either is present but malformed.
+ */
+export function parseTimeRange(
+  searchParams: URLSearchParams
+): TimeRange | { error: string } {
+  const range: TimeRange = {};
+  for (const key of ["from", "to"] as const) {
+    const raw = searchParams.get(key);
+    if (raw === null || raw === "") continue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      return { error: `Invalid '${key}' value` };
+    }
+    range[key] = value;
+  }
+  if (
+    range.from !== undefined &&
+    range.to !== undefined &&
+    range.from > range.to
+  ) {
+    return { error: "'from' must not be after 'to'" };
+  }
+  return range;
+}
+
+export function hasTimeRange(range: TimeRange) {
+  return range.from !== undefined || range.to !== undefined;
+}
+
+// ---- Top lists (user.getTopTracks / getTopArtists / getTopAlbums) ----
+
+export type TopListKind = "tracks" | "artists" | "albums";
+
+const TOP_LISTS = {
+  tracks: { method: "user.getTopTracks", root: "toptracks", item: "track" },
+  artists: { method: "user.getTopArtists", root: "topartists", item: "artist" },
+  albums: { method: "user.getTopAlbums", root: "topalbums", item: "album" },
+} as const;
+
+/** An entry of a user.getTop* list; tracks and albums carry their artist. */
+export type TopListItem = {
+  name: string;
+  playcount: string;
+  url: string;
+  image?: LastFmImage;
+  artist?: { name: string; url?: string };
+  "@attr"?: { rank: string };
+};
+
+/** Page size used for every paged Last.fm list in this app. */
+export const PAGE_LIMIT = 200;
+
+/** Maps a 1-based position in a paged list to its page and in-page index. */
+export function pageForPosition(position: number, limit = PAGE_LIMIT) {
+  return {
+    page: Math.floor((position - 1) / limit) + 1,
+    indexInPage: (position - 1) % limit,
+  };
+}
+
+export function topListUrl(
+  kind: TopListKind,
+  user: string,
+  apiKey: string,
+  params: { limit?: number; page?: number } = {}
+) {
+  return buildLastFmUrl(TOP_LISTS[kind].method, apiKey, {
+    user,
+    period: "overall",
+    limit: params.limit ?? PAGE_LIMIT,
+    page: params.page,
+  });
+}
+
+/** Pulls the items and `@attr.total` out of a user.getTop* response. */
+export function readTopList(
+  kind: TopListKind,
+  data: unknown
+): { items: TopListItem[]; total: number | null } {
+  const { root, item } = TOP_LISTS[kind];
+  const list = (data as Record<string, Record<string, unknown>> | null)?.[root];
+  const raw = list?.[item];
+  const items = (Array.isArray(raw) ? raw : raw ? [raw] : []) as TopListItem[];
+  const total = Number((list?.["@attr"] as { total?: string })?.total);
+  return { items, total: isNaN(total) ? null : total };
+}
+
+/**
+ * Fetches the entry at 1-based `rank` of a user's overall top list.
+ * Failures come back as `{ error, status }` ready for a JSON response.
+ */
+export async function fetchTopItemAt(
+  kind: TopListKind,
+  user: string,
+  apiKey: string,
+  rank: number
+): Promise<
+  | { item: TopListItem; total: number | null }
+  | { error: string; status: number }
+  | LastFmFailure
+> {
+  const { page, indexInPage } = pageForPosition(rank);
+  const result = await lastFmGet(
+    topListUrl(kind, user, apiKey, { page }),
+    TTL.topList
+  );
+  if ("error" in result) return result;
+
+  const { items, total } = readTopList(kind, result.data);
+  const item = items[indexInPage];
+  if (!item) {
+    return { error: "Nothing found at the specified rank.", status: 404 };
+  }
+  return { item, total };
+}
+
+// ---- user.getInfo ----
+
+export type LastFmUserInfo = {
+  name: string;
+  playcount: number;
+  /** Account creation (unix seconds), when Last.fm reports it */
+  registered: number | null;
+  /** Largest avatar, or null when the user has none */
+  avatar: string | null;
+};
+
+/**
+ * Fetches a user's profile basics. Failures come back as
+ * `{ error, status }` ready for a JSON response.
+ */
+export async function fetchUserInfo(
+  apiKey: string,
+  user: string
+): Promise<LastFmUserInfo | { error: string; status: number } | LastFmFailure> {
+  const result = await lastFmGet<{
+    user?: {
+      name?: string;
+      playcount?: string;
+      registered?: { unixtime?: string };
+      image?: LastFmImage;
+    };
+  }>(buildLastFmUrl("user.getinfo", apiKey, { user }), TTL.userInfo);
+  if ("error" in result) {
+    return result.code === "user_not_found"
+      ? { ...result, error: `Last.fm user not found: ${user}` }
+      : result;
+  }
+  const data = result.data;
+  const playcount = Number(data?.user?.playcount);
+  if (isNaN(playcount)) {
+    return {
+      error: "Invalid playcount format received from Last.fm",
+      status: 500,
+    };
+  }
+  const registered = Number(data?.user?.registered?.unixtime);
+  const images: LastFmImage = data?.user?.image ?? [];
+  return {
+    name: data?.user?.name ?? user,
+    playcount,
+    registered: isNaN(registered) ? null : registered,
+    avatar: images.at(-1)?.["#text"] || null,
+  };
+}
+
+// ---- track.getInfo ----
+
+export type LastFmTrackInfo = {
+  name: string;
+  url: string;
+  duration?: string;
+  listeners?: string;
+  playcount?: string;
+  userplaycount?: string;
+  artist: { name: string; url?: string };
+  album?: { artist: string; title: string; url?: string; image?: LastFmImage };
+};
+
+/**
+ * Best-effort track.getInfo (with `username` so `userplaycount` is filled).
+ * Returns null on any failure.
+ */
+export async function fetchTrackInfo(
+  apiKey: string,
+  artist: string,
+  track: string,
+  user?: string
+): Promise<LastFmTrackInfo | null> {
+  const result = await lastFmGet<{ track?: LastFmTrackInfo }>(
+    buildLastFmUrl("track.getInfo", apiKey, {
+      artist,
+      track,
+      username: user,
+      autocorrect: 1,
+    }),
+    TTL.catalog
+  );
+  return "error" in result ? null : result.data.track ?? null;
+}
+
+/** track.getInfo's duration in ms, or undefined when Last.fm has none ("0"). */
+export function durationOf(info: LastFmTrackInfo | null) {
+  return Number(info?.duration) || undefined;
+}
+
+/**
+ * Best-effort timestamp (unix seconds) of the user's latest scrobble of a
+ * track, via user.getTrackScrobbles (undocumented, newest first).
+ * Returns null when unknown.
+ */
+export async function fetchLastScrobbleOf(
+  apiKey: string,
+  user: string,
+  artist: string,
+  track: string
+): Promise<number | null> {
+  const result = await lastFmGet<{
+    trackscrobbles?: { track?: LastFmTrack | LastFmTrack[] };
+  }>(
+    buildLastFmUrl("user.getTrackScrobbles", apiKey, {
+      user,
+      artist,
+      track,
+      limit: 1,
+    }),
+    TTL.recentPage
+  );
+  if ("error" in result) return null;
+  const raw = result.data.trackscrobbles?.track;
+  const latest = Array.isArray(raw) ? raw[0] : raw;
+  const uts = Number(latest?.date?.uts);
+  return isNaN(uts) ? null : uts;
+}
+
+/**
+ * Builds the recent-tracks shape the client renders from an artist/title
+ * pair, borrowing album name and art from track.getInfo when available.
+ */
+export async function describeTrack(
+  apiKey: string,
+  artist: string,
+  name: string,
+  user?: string
+): Promise<{ track: LastFmTrack; info: LastFmTrackInfo | null }> {
+  const info = await fetchTrackInfo(apiKey, artist, name, user);
+  return {
+    track: {
+      artist: { "#text": info?.artist?.name ?? artist },
+      name: info?.name ?? name,
+      album: { "#text": info?.album?.title ?? "" },
+      image: info?.album?.image ?? [],
+      url: info?.url,
+    },
+    info,
+  };
+}
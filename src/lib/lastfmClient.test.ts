@@ -0,0 +1,157 @@
+/**
+ * lastFmGet against a local stub of the Last.fm API (LASTFM_API_ROOT):
+ * error-code mapping, retries with backoff, and the per-key budget.
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  it,
+  mock,
+} from "node:test";
+
+type Reply = { status?: number; body: unknown };
+
+// Replies the stub serves in order, then `{ ok: true }`; and when each
+// request arrived (ms)
+let replies: Reply[] = [];
+let hits: number[] = [];
+
+const server = createServer((req, res) => {
+  hits.push(Date.now());
+  const reply = replies.shift() ?? { body: { ok: true } };
+  res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+  res.end(
+    typeof reply.body === "string" ? reply.body : JSON.stringify(reply.body)
+  );
+});
+
+let lastFmGet: typeof import("@/lib/lastfmClient").lastFmGet;
+let buildLastFmUrl: typeof import("@/lib/lastfm").buildLastFmUrl;
+
+// Distinct URLs so the cache never answers; distinct keys per budget test
+let calls = 0;
+const urlFor = (apiKey = "test-key") =>
+  buildLastFmUrl("user.getinfo", apiKey, { user: `stub${++calls}` });
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  // Read when the modules load, so set before importing them
+  process.env.LASTFM_API_ROOT = `http://127.0.0.1:${port}/2.0/`;
+  process.env.LASTFM_RATE_LIMIT = "5";
+  ({ lastFmGet } = await import("@/lib/lastfmClient"));
+  ({ buildLastFmUrl } = await import("@/lib/lastfm"));
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  replies = [];
+  hits = [];
+  mock.method(console, "error", () => {});
+  // No backoff waits unless a test asks for them
+  mock.method(Math, "random", () => 0);
+});
+
+afterEach(() => mock.restoreAll());
+
+describe("error mapping", () => {
+  const cases: Array<[number, string, number]> = [
+    [6, "user_not_found", 404],
+    [17, "private_profile", 403],
+    [10, "bad_api_key", 500],
+    [2, "upstream_error", 502],
+  ];
+  for (const [lastFmError, code, status] of cases) {
+    it(`maps error ${lastFmError} sent with HTTP 200 to ${code}`, async () => {
+      replies = [{ body: { error: lastFmError, message: "stub" } }];
+      const result = await lastFmGet(urlFor(), 60_000);
+      assert.ok("error" in result);
+      assert.equal(result.code, code);
+      assert.equal(result.status, status);
+      assert.equal(hits.length, 1, "not retried");
+    });
+  }
+
+  it("maps error 29 to rate_limited once retries run out", async () => {
+    replies = Array(4).fill({ body: { error: 29, message: "slow down" } });
+    const result = await lastFmGet(urlFor(), 60_000);
+    assert.ok("error" in result);
+    assert.equal(result.code, "rate_limited");
+    assert.equal(result.status, 429);
+    assert.equal(hits.length, 4, "first try and three retries");
+  });
+
+  it("maps an HTML outage page to unavailable", async () => {
+    replies = Array(4).fill({ status: 503, body: "<html>down</html>" });
+    const result = await lastFmGet(urlFor(), 60_000);
+    assert.ok("error" in result);
+    assert.equal(result.code, "unavailable");
+    assert.equal(result.status, 503);
+  });
+});
+
+describe("retries", () => {
+  it("retries rate limits and outages until an answer comes", async () => {
+    replies = [
+      { body: { error: 29, message: "slow down" } },
+      { status: 502, body: "" },
+      { body: { user: { name: "stub" } } },
+    ];
+    const result = await lastFmGet(urlFor(), 60_000);
+    assert.deepEqual(result, { data: { user: { name: "stub" } } });
+    assert.equal(hits.length, 3);
+  });
+
+  it("backs off exponentially between tries", async () => {
+    // Full jitter at its top: waits of 500 ms, then 1000 ms
+    mock.method(Math, "random", () => 1);
+    replies = [
+      { body: { error: 29, message: "slow down" } },
+      { body: { error: 29, message: "slow down" } },
+    ];
+    const result = await lastFmGet(urlFor(), 60_000);
+    assert.ok("data" in result);
+    assert.equal(hits.length, 3);
+    assert.ok(hits[1] - hits[0] >= 450, `first wait ${hits[1] - hits[0]} ms`);
+    assert.ok(hits[2] - hits[1] >= 950, `second wait ${hits[2] - hits[1]} ms`);
+  });
+
+  it("does not cache failures", async () => {
+    const url = urlFor();
+    replies = [{ body: { error: 6, message: "no such user" } }];
+    assert.ok("error" in (await lastFmGet(url, 60_000)));
+    assert.ok("data" in (await lastFmGet(url, 60_000)));
+    assert.ok("data" in (await lastFmGet(url, 60_000)), "success cached");
+    assert.equal(hits.length, 2);
+  });
+});
+
+describe("request budget", () => {
+  it("lets a burst through, then paces a key to its rate", async () => {
+    const start = Date.now();
+    await Promise.all(
+      Array.from({ length: 10 }, () => lastFmGet(urlFor("busy-key"), 60_000))
+    );
+    assert.equal(hits.length, 10);
+    // 5 at once, then one every 200 ms
+    assert.ok(hits[4] - start < 150, `burst took ${hits[4] - start} ms`);
+    assert.ok(hits[9] - start >= 900, `ten took ${hits[9] - start} ms`);
+  });
+
+  it("keeps each API key's budget apart", async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () => lastFmGet(urlFor("drained-key"), 0))
+    );
+    const start = Date.now();
+    await lastFmGet(urlFor("fresh-key"), 0);
+    assert.ok(Date.now() - start < 150, "fresh key did not wait");
+  });
+});
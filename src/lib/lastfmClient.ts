@@ -0,0 +1,205 @@
+/**
+ * Last.fm API calls that know how Last.fm fails.
+ *
+ * Last.fm reports many errors as `{ error, message }` JSON, sometimes with
+ * HTTP 200. lastFmGet reads those codes (and bare HTTP failures) into a
+ * stable LastFmErrorCode with the status and message routes answer with:
+ *   6   user_not_found   404
+ *   17  private_profile  403
+ *   29  rate_limited     429
+ *   10, 26  bad_api_key  500
+ *   8, 11, 16, 5xx  unavailable  503
+ *   anything else  upstream_error  502
+ *
+ * Rate limits, outages and network errors are retried with jittered
+ * exponential backoff. Every request, retries included, first takes a
+ * token from its API key's budget (LASTFM_RATE_LIMIT requests per second,
+ * default 5, Last.fm's documented limit), shared by the whole process.
+ * Successful answers go through the cache; failures never do.
+ *
+ * Every Last.fm request in the app goes through lastFmGet, so none skips
+ * the budget or caches an error body as a success.
+ *
+ * Point LASTFM_API_ROOT (see lastfm.ts) at a local stub server to exercise
+ * all of this offline.
+ *
+ * Server-only.
+ */
+
+import { createHash } from "crypto";
+import { cached } from "@/lib/cache";
+
+export type LastFmErrorCode =
+  | "user_not_found"
+  | "private_profile"
+  | "rate_limited"
+  | "bad_api_key"
+  | "unavailable"
+  | "upstream_error";
+
+export type LastFmFailure = {
+  error: string;
+  status: number;
+  code: LastFmErrorCode;
+};
+
+const FAILURES: Record<LastFmErrorCode, { error: string; status: number }> = {
+  user_not_found: { error: "Last.fm user not found", status: 404 },
+  private_profile: {
+    error: "This Last.fm user's listening history is private",
+    status: 403,
+  },
+  rate_limited: {
+    error: "Last.fm is rate limiting requests; try again shortly",
+    status: 429,
+  },
+  bad_api_key: {
+    error: "Server misconfigured: Last.fm rejected the API key",
+    status: 500,
+  },
+  unavailable: { error: "Last.fm is temporarily unavailable", status: 503 },
+  upstream_error: {
+    error: "Error fetching data from Last.fm API",
+    status: 502,
+  },
+};
+
+const RETRYABLE = new Set<LastFmErrorCode>(["rate_limited", "unavailable"]);
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+
+const RATE_PER_S = Number(process.env.LASTFM_RATE_LIMIT) || 5;
+// Requests a quiet key may fire back to back
+const BURST = Math.max(1, Math.floor(RATE_PER_S));
+
+export function lastFmFailure(code: LastFmErrorCode): LastFmFailure {
+  return { ...FAILURES[code], code };
+}
+
+function codeForLastFmError(lastFmError: number): LastFmErrorCode {
+  switch (lastFmError) {
+    case 6:
+      return "user_not_found";
+    case 17:
+      return "private_profile";
+    case 29:
+      return "rate_limited";
+    case 10:
+    case 26:
+      return "bad_api_key";
+    case 8:
+    case 11:
+    case 16:
+      return "unavailable";
+    default:
+      return "upstream_error";
+  }
+}
+
+function codeForHttpStatus(status: number): LastFmErrorCode {
+  if (status === 404) return "user_not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "unavailable";
+  return "upstream_error";
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ---- Per-key request budget (token bucket) ----
+
+type Bucket = { tokens: number; updatedAt: number };
+const buckets = new Map<string, Bucket>();
+
+async function takeBudget(apiKey: string) {
+  for (;;) {
+    const now = Date.now();
+    const bucket = buckets.get(apiKey) ?? { tokens: BURST, updatedAt: now };
+    bucket.tokens = Math.min(
+      BURST,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * RATE_PER_S
+    );
+    bucket.updatedAt = now;
+    buckets.set(apiKey, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens--;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / RATE_PER_S) * 1000);
+  }
+}
+
+// ---- Requests ----
+
+async function attempt<T>(
+  url: URL
+): Promise<{ data: T } | { code: LastFmErrorCode; detail: string }> {
+  let resp: Response;
+  try {
+    resp = await fetch(url, { cache: "no-store" });
+  } catch (error) {
+    return { code: "unavailable", detail: String(error) };
+  }
+
+  // Error bodies carry the more precise reason, whatever the status
+  let body: unknown = null;
+  try {
+    body = await resp.json();
+  } catch {
+    // Outage pages are HTML; the status says enough
+  }
+  const lastFmError = (body as { error?: unknown; message?: unknown } | null)
+    ?.error;
+  if (typeof lastFmError === "number") {
+    const message = (body as { message?: unknown }).message;
+    return {
+      code: codeForLastFmError(lastFmError),
+      detail: `error ${lastFmError}: ${message}`,
+    };
+  }
+  if (!resp.ok) {
+    return {
+      code: codeForHttpStatus(resp.status),
+      detail: `${resp.status} ${resp.statusText}`,
+    };
+  }
+  if (body === null) {
+    return { code: "upstream_error", detail: "unreadable response" };
+  }
+  return { data: body as T };
+}
+
+async function request<T>(url: URL): Promise<{ data: T } | LastFmFailure> {
+  const apiKey = url.searchParams.get("api_key") ?? "";
+  for (let retry = 0; ; retry++) {
+    await takeBudget(apiKey);
+    const result = await attempt<T>(url);
+    if ("data" in result) return result;
+
+    const method = url.searchParams.get("method");
+    console.error(`Last.fm API error (${method}): ${result.detail}`);
+    if (!RETRYABLE.has(result.code) || retry >= MAX_RETRIES) {
+      return lastFmFailure(result.code);
+    }
+    // Full jitter: anywhere up to the exponential step
+    await sleep(Math.random() * BACKOFF_BASE_MS * 2 ** retry);
+  }
+}
+
+/**
+ * GETs a Last.fm API URL (see buildLastFmUrl) and returns its JSON, kept
+ * in the cache for `ttlMs`, or a LastFmFailure ready for a JSON response.
+ */
+export function lastFmGet<T = unknown>(
+  url: URL,
+  ttlMs: number
+): Promise<{ data: T } | LastFmFailure> {
+  // Hash the URL so API keys never reach a shared store
+  const key = `lastfm:${createHash("sha256")
+    .update(url.toString())
+    .digest("hex")}`;
+  return cached(
+    key,
+    (r) => ("data" in r ? ttlMs : 0),
+    () => request<T>(url)
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Listening sessions around a scrobble: the scrobbles of a window (by
+ * default the day around it), split into sessions wherever the user went
+ * quiet for longer than a gap threshold.
+ *
+ * The window is widened by SESSION_MARGIN_S on both sides before grouping,
+ * so a session running over the window's edge (past midnight, say) still
+ * comes back whole. Scrobbles come from the local history index when the
+ * user has one, otherwise from as many user.getRecentTracks pages as the
+ * window needs, up to MAX_PAGES.
+ *
+ * Server-only.
+ */
+
+import { recentPageTtl } from "@/lib/cache";
+import { getLocalHistory } from "@/lib/historyStore";
+import {
+  buildLastFmUrl,
+  LastFmTrack,
+  PAGE_LIMIT,
+  readRecentTracks,
+  TimeRange,
+} from "@/lib/lastfm";
+import { LastFmFailure, lastFmGet } from "@/lib/lastfmClient";
+
+/** Silence (seconds) that ends a session unless the caller says otherwise. */
+export const DEFAULT_SESSION_GAP_S = 30 * 60;
+const SESSION_MARGIN_S = 6 * 60 * 60;
+// 1000 scrobbles: a long window for all but the busiest scrobblers
+const MAX_PAGES = 5;
+
+export type SessionTrack = {
+  artist: string;
+  name: string;
+  album: string;
+  uts: number;
+};
+
+export type ListeningSession = {
+  /** uts of its first and last scrobble */
+  from: number;
+  to: number;
+  /** Seconds from first to last scrobble */
+  durationS: number;
+  tracks: SessionTrack[];
+  dominantArtist: { name: string; plays: number };
+  dominantAlbum: { name: string; artist: string; plays: number } | null;
+};
+
+export type SessionWindow = {
+  /** The session holding the scrobble at `uts` */
+  session: ListeningSession;
+  /** Position of that scrobble in `session.tracks` */
+  index: number;
+  /** Every session touching the requested window, oldest first */
+  sessions: ListeningSession[];
+  window: { from: number; to: number };
+  gapS: number;
+  /** The window has more scrobbles than were fetched */
+  truncated: boolean;
+  source: "local" | "live";
+};
+
+function asSessionTrack(track: LastFmTrack): SessionTrack[] {
+  const uts = Number(track.date?.uts);
+  return isNaN(uts)
+    ? []
+    : [
+        {
+          artist: track.artist["#text"],
+          name: track.name,
+          album: track.album["#text"],
+          uts,
+        },
+      ];
+}
+
+/** The most frequent value of `keyOf` (first to reach the top count wins). */
+function dominant<T>(items: T[], keyOf: (item: T) => string | null) {
+  const counts = new Map<string, { item: T; plays: number }>();
+  let best: { item: T; plays: number } | null = null;
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!key) continue;
+    const entry = counts.get(key) ?? { item, plays: 0 };
+    entry.plays++;
+    counts.set(key, entry);
+    if (!best || entry.plays > best.plays) best = entry;
+  }
+  return best;
+}
+
+function summarize(tracks: SessionTrack[]): ListeningSession {
+  const from = tracks[0].uts;
+  const to = tracks[tracks.length - 1].uts;
+  const artist = dominant(tracks, (t) => t.artist.toLowerCase())!;
+  const album = dominant(tracks, (t) =>
+    t.album ? `${t.artist.toLowerCase()}\u0000${t.album.toLowerCase()}` : null
+  );
+  return {
+    from,
+    to,
+    durationS: to - from,
+    tracks,
+    dominantArtist: { name: artist.item.artist, plays: artist.plays },
+    dominantAlbum: album
+      ? {
+          name: album.item.album,
+          artist: album.item.artist,
+          plays: album.plays,
+        }
+      : null,
+  };
+}
+
+/** Splits scrobbles (oldest first) wherever more than `gapS` passes. */
+export function groupSessions(tracks: SessionTrack[], gapS: number) {
+  const sessions: SessionTrack[][] = [];
+  for (const track of tracks) {
+    const current = sessions[sessions.length - 1];
+    const last = current?.[current.length - 1];
+    if (last && track.uts - last.uts <= gapS) current.push(track);
+    else sessions.push([track]);
+  }
+  return sessions.map(summarize);
+}
+
+/** Scrobbles inside `range`, oldest first, live. */
+async function fetchWindow(
+  apiKey: string,
+  user: string,
+  range: Required<TimeRange>
+): Promise<{ tracks: SessionTrack[]; truncated: boolean } | LastFmFailure> {
+  const pages: LastFmTrack[][] = [];
+  let totalPages = 1;
+  for (let page = 1; page <= Math.min(totalPages, MAX_PAGES); page++) {
+    const result = await lastFmGet(
+      buildLastFmUrl("user.getRecentTracks", apiKey, {
+        user,
+        limit: PAGE_LIMIT,
+        page,
+        ...range,
+      }),
+      recentPageTtl(range)
+    );
+    if ("error" in result) return result;
+    const { tracks, total } = readRecentTracks(result.data);
+    totalPages = Math.ceil((total ?? 0) / PAGE_LIMIT);
+    pages.push(tracks);
+  }
+  // Pages run newest first; cut-off pages lose the window's oldest end
+  return {
+    tracks: pages.flat().reverse().flatMap(asSessionTrack),
+    truncated: totalPages > MAX_PAGES,
+  };
+}
+
+/**
+ * The sessions of `window` (which must contain `uts`) and the one the
+ * scrobble at `uts` belongs to.
+ */
+export async function loadSessionWindow(
+  user: string,
+  uts: number,
+  window: { from: number; to: number },
+  gapS: number
+): Promise<SessionWindow | { error: string; status: number } | LastFmFailure> {
+  const range = {
+    from: Math.max(0, window.from - SESSION_MARGIN_S),
+    to: window.to + SESSION_MARGIN_S,
+  };
+
+  let fetched: { tracks: SessionTrack[]; truncated: boolean };
+  let source: "local" | "live";
+  const local = await getLocalHistory(user);
+  if (local) {
+    fetched = {
+      tracks: local.select(range, () => true).flatMap(asSessionTrack),
+      truncated: false,
+    };
+    source = "local";
+  } else {
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+      console.error("LASTFM_API_KEY is not configured on the server.");
+      return { error: "Server misconfigured: Missing API key", status: 500 };
+    }
+    const result = await fetchWindow(apiKey, user, range);
+    if ("error" in result) return result;
+    fetched = result;
+    source = "live";
+  }
+
+  const sessions = groupSessions(fetched.tracks, gapS).filter(
+    (s) => s.to >= window.from && s.from <= window.to
+  );
+  const session = sessions.find((s) => s.from <= uts && uts <= s.to);
+  const index = session?.tracks.findIndex((t) => t.uts === uts) ?? -1;
+  if (!session || index < 0) {
+    return {
+      error: fetched.truncated
+        ? "Too many scrobbles around that time; try a shorter window"
+        : "No scrobble at that time",
+      status: 404,
+    };
+  }
+  return {
+    session,
+    index,
+    sessions,
+    window,
+    gapS,
+    truncated: fetched.truncated,
+    source,
+  };
+}
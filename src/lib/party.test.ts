@@ -0,0 +1,110 @@
+/**
+ * Party pool maths: where each virtual index lands, at the edges of every
+ * participant's share and around participants without scrobbles.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  locateInParty,
+  parsePartyUsers,
+  partyPoolSize,
+  PartyWeighting,
+} from "@/lib/party";
+
+const WEIGHTINGS: PartyWeighting[] = ["scrobbles", "equal"];
+
+// Every index of the pool, in order
+const layout = (counts: number[], weighting: PartyWeighting) =>
+  Array.from({ length: partyPoolSize(counts, weighting) }, (_, i) =>
+    locateInParty(i + 1, counts, weighting)
+  );
+
+describe("locateInParty by scrobbles", () => {
+  const counts = [3, 5, 2];
+
+  it("lays histories end to end", () => {
+    assert.equal(partyPoolSize(counts, "scrobbles"), 10);
+    assert.deepEqual(locateInParty(1, counts, "scrobbles"), { index: 0, n: 1 });
+    assert.deepEqual(locateInParty(3, counts, "scrobbles"), { index: 0, n: 3 });
+    assert.deepEqual(locateInParty(4, counts, "scrobbles"), { index: 1, n: 1 });
+    assert.deepEqual(locateInParty(8, counts, "scrobbles"), { index: 1, n: 5 });
+    assert.deepEqual(locateInParty(9, counts, "scrobbles"), { index: 2, n: 1 });
+    assert.deepEqual(locateInParty(10, counts, "scrobbles"), {
+      index: 2,
+      n: 2,
+    });
+  });
+
+  it("gives each participant exactly their scrobbles", () => {
+    const picks = layout(counts, "scrobbles");
+    counts.forEach((count, index) => {
+      const mine = picks.filter((p) => p?.index === index).map((p) => p?.n);
+      assert.deepEqual(
+        mine,
+        Array.from({ length: count }, (_, i) => i + 1)
+      );
+    });
+  });
+});
+
+describe("locateInParty with equal weighting", () => {
+  const counts = [4, 2, 1];
+
+  it("gives everyone a slice the size of the biggest history", () => {
+    assert.equal(partyPoolSize(counts, "equal"), 12);
+    assert.deepEqual(locateInParty(1, counts, "equal"), { index: 0, n: 1 });
+    assert.deepEqual(locateInParty(4, counts, "equal"), { index: 0, n: 4 });
+    assert.deepEqual(locateInParty(5, counts, "equal"), { index: 1, n: 1 });
+    assert.deepEqual(locateInParty(8, counts, "equal"), { index: 1, n: 2 });
+    assert.deepEqual(locateInParty(9, counts, "equal"), { index: 2, n: 1 });
+    assert.deepEqual(locateInParty(12, counts, "equal"), { index: 2, n: 1 });
+  });
+
+  it("stretches smaller histories evenly across their slice", () => {
+    const picks = layout(counts, "equal");
+    assert.deepEqual(
+      picks.filter((p) => p?.index === 1).map((p) => p?.n),
+      [1, 1, 2, 2]
+    );
+  });
+});
+
+describe("locateInParty with members without scrobbles", () => {
+  for (const weighting of WEIGHTINGS) {
+    it(`skips them (${weighting})`, () => {
+      const counts = [0, 2, 0, 2, 0];
+      const picks = layout(counts, weighting);
+      assert.deepEqual(picks, [
+        { index: 1, n: 1 },
+        { index: 1, n: 2 },
+        { index: 3, n: 1 },
+        { index: 3, n: 2 },
+      ]);
+    });
+
+    it(`has no pool when nobody scrobbled (${weighting})`, () => {
+      assert.equal(partyPoolSize([0, 0], weighting), 0);
+      assert.equal(locateInParty(1, [0, 0], weighting), null);
+      assert.equal(locateInParty(1, [], weighting), null);
+    });
+
+    it(`rejects indices outside the pool (${weighting})`, () => {
+      const counts = [3, 0, 5];
+      const size = partyPoolSize(counts, weighting);
+      assert.equal(locateInParty(0, counts, weighting), null);
+      assert.equal(locateInParty(size + 1, counts, weighting), null);
+      assert.notEqual(locateInParty(size, counts, weighting), null);
+    });
+  }
+});
+
+describe("parsePartyUsers", () => {
+  it("splits on commas and spaces and drops repeats", () => {
+    assert.deepEqual(parsePartyUsers(" alice, Bob  carol,alice,BOB "), [
+      "alice",
+      "Bob",
+      "carol",
+    ]);
+  });
+});
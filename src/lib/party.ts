@@ -0,0 +1,89 @@
+/**
+ * Party mode: one spin across several Last.fm accounts.
+ *
+ * The participants' histories form one virtual pool the reels index into.
+ * Weighted by scrobbles, the pool is their histories laid end to end, so
+ * heavy listeners come up more often. Equal weighting gives every
+ * participant a slice as large as the biggest history and stretches the
+ * smaller histories across theirs, so each account is equally likely.
+ *
+ * Client-safe: the page and the party routes share the index maths.
+ */
+
+export type PartyWeighting = "scrobbles" | "equal";
+
+export const PARTY_WEIGHTINGS: Array<{ id: PartyWeighting; label: string }> = [
+  { id: "scrobbles", label: "By scrobbles" },
+  { id: "equal", label: "Equal" },
+];
+
+export const MAX_PARTY_USERS = 8;
+
+export type Participant = {
+  user: string;
+  /** Scrobbles inside the spin's window */
+  playcount: number;
+  avatar: string | null;
+  /** Account creation (unix seconds), when known */
+  registered: number | null;
+};
+
+/** Which participant a party spin landed on, and where in their history. */
+export type PartyPick = { user: string; index: number; n: number };
+
+export function isPartyWeighting(value: unknown): value is PartyWeighting {
+  return PARTY_WEIGHTINGS.some((w) => w.id === value);
+}
+
+/** Usernames from a comma/space separated list, de-duplicated. */
+export function parsePartyUsers(raw: string) {
+  const seen = new Set<string>();
+  return raw
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .filter((u) => {
+      const key = u.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Size of the virtual pool over participants with these counts. */
+export function partyPoolSize(counts: number[], weighting: PartyWeighting) {
+  if (weighting === "equal") {
+    const active = counts.filter((c) => c > 0).length;
+    return active * Math.max(0, ...counts);
+  }
+  return counts.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Maps 1-based virtual index `n` to a participant and a 1-based index into
+ * their history. Participants without scrobbles get no share of the pool.
+ */
+export function locateInParty(
+  n: number,
+  counts: number[],
+  weighting: PartyWeighting
+): { index: number; n: number } | null {
+  if (n < 1 || n > partyPoolSize(counts, weighting)) return null;
+  const slice = Math.max(0, ...counts);
+  let offset = n - 1;
+  for (let index = 0; index < counts.length; index++) {
+    const count = counts[index];
+    if (count <= 0) continue;
+    const size = weighting === "equal" ? slice : count;
+    if (offset < size) {
+      return {
+        index,
+        n:
+          weighting === "equal"
+            ? Math.floor((offset * count) / slice) + 1
+            : offset + 1,
+      };
+    }
+    offset -= size;
+  }
+  return null;
+}
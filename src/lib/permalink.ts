@@ -0,0 +1,42 @@
+/**
+ * Shareable spin URLs: `/u/[user]/[n]`, with `?from=&to=` for spins inside a
+ * date range. The root page accepts the same state as `/?user=&n=`.
+ *
+ * Client-safe.
+ */
+
+type PermalinkRange = { from: number; to: number } | null | undefined;
+
+function rangeQuery(params: URLSearchParams, range: PermalinkRange) {
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function permalinkPath(user: string, n: number, range?: PermalinkRange) {
+  return `/u/${encodeURIComponent(user)}/${n}${rangeQuery(
+    new URLSearchParams(),
+    range
+  )}`;
+}
+
+/** Social card image for the same spin (see app/api/og). */
+export function ogImagePath(user: string, n: number, range?: PermalinkRange) {
+  const params = new URLSearchParams({ user, n: String(n) });
+  return `/api/og${rangeQuery(params, range)}`;
+}
+
+/** Next's page `searchParams` record as URLSearchParams (first value wins). */
+export function toSearchParams(
+  record: Record<string, string | string[] | undefined>
+) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(record)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) params.set(key, first);
+  }
+  return params;
+}
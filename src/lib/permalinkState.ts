@@ -0,0 +1,132 @@
+/**
+ * Server-side loading of a permalinked spin, so shared links render the
+ * result on first load instead of after a client round trip, and unfurl
+ * into a rich preview (see the /api/og image route).
+ *
+ * Server-only.
+ */
+
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import type { SlotInitialState } from "@/components/SlotMachine";
+import { parseEnrichmentParams } from "@/lib/enrichment";
+import { marketFromLocale } from "@/lib/enrichment/providers";
+import { parseTimeRange, TimeRange } from "@/lib/lastfm";
+import { ogImagePath, permalinkPath } from "@/lib/permalink";
+import { findScrobble, loadScrobble } from "@/lib/scrobbles";
+import type { ResolvedRange } from "@/lib/spinRange";
+
+const dateLabel = (uts: number) =>
+  new Date(uts * 1000).toISOString().slice(0, 10);
+
+/**
+ * Validates the `n` path segment and `from`/`to` of a permalink.
+ * `resolved` is the labelled window the page shows, null for all time.
+ */
+export function parsePermalink(
+  nParam: string,
+  searchParams: URLSearchParams
+):
+  | { n: number; range: TimeRange; resolved: ResolvedRange | null }
+  | { error: string } {
+  const n = Number(nParam);
+  if (!Number.isInteger(n) || n < 1) {
+    return { error: "Invalid scrobble number" };
+  }
+  const range = parseTimeRange(searchParams);
+  if ("error" in range) return range;
+  const resolved =
+    range.from !== undefined && range.to !== undefined
+      ? {
+          from: range.from,
+          to: range.to,
+          label: `${dateLabel(range.from)} → ${dateLabel(range.to)}`,
+        }
+      : null;
+  return { n, range, resolved };
+}
+
+export async function loadPermalinkState(
+  user: string,
+  nParam: string,
+  searchParams: URLSearchParams
+): Promise<SlotInitialState> {
+  const base = { username: user, n: 0, result: null, maxPlaycount: null };
+  const parsed = parsePermalink(nParam, searchParams);
+  if ("error" in parsed) {
+    return { ...base, range: null, error: parsed.error };
+  }
+  const { n, range, resolved } = parsed;
+
+  // Storefront from the visitor's browser language unless the link says.
+  if (!searchParams.has("market")) {
+    const locale = (await headers()).get("accept-language")?.split(",")[0];
+    searchParams.set("market", marketFromLocale(locale));
+  }
+  const enrichment = parseEnrichmentParams(searchParams);
+  if ("error" in enrichment) {
+    return { ...base, n, range: resolved, error: enrichment.error };
+  }
+
+  const result = await loadScrobble(user, n, null, range, enrichment);
+  if ("error" in result) {
+    return { ...base, n, range: resolved, error: result.error };
+  }
+  return {
+    username: user,
+    n,
+    result: { ...result, permalink: permalinkPath(user, n, resolved) },
+    maxPlaycount: result.total,
+    range: resolved,
+  };
+}
+
+/**
+ * Per-spin title, description and social card for a permalink. Falls back
+ * to the layout's generic metadata when the link doesn't resolve.
+ */
+export async function permalinkMetadata(
+  user: string,
+  nParam: string,
+  searchParams: URLSearchParams
+): Promise<Metadata> {
+  const parsed = parsePermalink(nParam, searchParams);
+  if ("error" in parsed) return {};
+  const { n, range, resolved } = parsed;
+
+  const found = await findScrobble(user, n, null, range);
+  if ("error" in found) return {};
+  const { track } = found;
+
+  const title = `${track.artist["#text"]} - ${track.name} · SlotFM`;
+  const description = [
+    `${user} rolled scrobble #${n.toLocaleString("en-US")}`,
+    resolved && `in ${resolved.label}`,
+    track.date?.["#text"] && `(${track.date["#text"]})`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const image = {
+    url: ogImagePath(user, n, resolved),
+    width: 1200,
+    height: 630,
+    alt: `${track.artist["#text"]} - ${track.name}`,
+  };
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: permalinkPath(user, n, resolved),
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
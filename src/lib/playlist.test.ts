@@ -0,0 +1,121 @@
+/**
+ * Playlist exports: CSV cells that would otherwise run as formulas or break
+ * rows, and XSPF text that would otherwise break the XML.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportPlaylist, PlaylistItem } from "@/lib/playlist";
+
+const item = (
+  artist: string,
+  name: string,
+  album = "",
+  extra: Partial<PlaylistItem["track"]> = {}
+): PlaylistItem => ({
+  n: 1,
+  track: {
+    artist: { "#text": artist },
+    name,
+    album: { "#text": album },
+    image: [],
+    ...extra,
+  },
+  spotify: null,
+  uts: null,
+});
+
+const HEADER = "artist,title,album,scrobbled_at\n";
+
+// The CSV row for one item, header and trailing newline dropped
+const csvRow = (entry: PlaylistItem) => {
+  const csv = exportPlaylist([entry], "csv", "Spins");
+  assert.ok(csv.startsWith(HEADER));
+  assert.ok(csv.endsWith("\n"));
+  return csv.slice(HEADER.length, -1);
+};
+
+describe("CSV export", () => {
+  it("writes plain cells as they are", () => {
+    assert.equal(csvRow(item("Artist", "Song", "Album")), "Artist,Song,Album,");
+  });
+
+  it("dates rows from their timestamp", () => {
+    const entry = { ...item("Artist", "Song"), uts: 1_700_000_000 };
+    assert.equal(csvRow(entry), "Artist,Song,,2023-11-14T22:13:20.000Z");
+  });
+
+  // What the cell starts with, the name, and the cell as written
+  const formulas: Array<[string, string, string]> = [
+    ["=", "=SUM(A1:A9)", "'=SUM(A1:A9)"],
+    ["+", "+1", "'+1"],
+    ["-", "-2+3", "'-2+3"],
+    ["@", "@SUM(A1)", "'@SUM(A1)"],
+    ["a tab", "\tcmd", "'\tcmd"],
+  ];
+  for (const [start, name, cell] of formulas) {
+    it(`keeps a cell starting with ${start} as text`, () => {
+      assert.equal(csvRow(item("Artist", name)), `Artist,${cell},,`);
+    });
+  }
+
+  it("keeps a cell starting with CR as text, quoted", () => {
+    assert.equal(csvRow(item("\rArtist", "Song")), `"'\rArtist",Song,,`);
+  });
+
+  it("quotes cells with commas and doubles their quotes", () => {
+    assert.equal(
+      csvRow(item('Say "Hi", Bye', "Song", "A, B")),
+      '"Say ""Hi"", Bye",Song,"A, B",'
+    );
+  });
+
+  it("quotes cells with line breaks so they stay in their row", () => {
+    assert.equal(
+      csvRow(item("Artist", "Line one\nLine two", "Side\r\nB")),
+      'Artist,"Line one\nLine two","Side\r\nB",'
+    );
+  });
+
+  it("quotes a formula cell after marking it", () => {
+    assert.equal(csvRow(item("Artist", '=1+"2"')), `Artist,"'=1+""2""",,`);
+  });
+});
+
+describe("XSPF export", () => {
+  it("escapes XML in the title and every field", () => {
+    const xspf = exportPlaylist(
+      [
+        item("Simon & Garfunkel", "<Intro>", 'The "Best"', {
+          url: "https://www.last.fm/music/x?a=1&b=2",
+          date: { uts: "1", "#text": "1 Jan > 2020" },
+        }),
+      ],
+      "xspf",
+      'Spins <of> "me" & you'
+    );
+    assert.match(
+      xspf,
+      /<title>Spins &lt;of&gt; &quot;me&quot; &amp; you<\/title>/
+    );
+    assert.match(xspf, /<creator>Simon &amp; Garfunkel<\/creator>/);
+    assert.match(xspf, /<title>&lt;Intro&gt;<\/title>/);
+    assert.match(xspf, /<album>The &quot;Best&quot;<\/album>/);
+    assert.match(xspf, /<annotation>1 Jan &gt; 2020<\/annotation>/);
+    assert.match(
+      xspf,
+      /<location>https:\/\/www\.last\.fm\/music\/x\?a=1&amp;b=2<\/location>/
+    );
+    assert.match(
+      xspf,
+      /<info>https:\/\/www\.last\.fm\/music\/x\?a=1&amp;b=2<\/info>/
+    );
+  });
+
+  it("leaves out empty fields and keeps escaped text free of raw markup", () => {
+    const xspf = exportPlaylist([item("A&B", "<x>")], "xspf", "T");
+    assert.doesNotMatch(xspf, /<album>|<annotation>|<info>|<location>/);
+    const body = xspf.replace(/<\/?[\w?][^<>]*>/g, "");
+    assert.doesNotMatch(body, /[<>]|&(?!amp;|lt;|gt;|quot;)/);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Playlists of several scrobble spins at once (see the playlist route) and
+ * their export formats.
+ *
+ * Client-safe: the exporters only build strings.
+ */
+
+import type { Track } from "@/lib/track";
+
+export const DEFAULT_PLAYLIST_SPINS = 25;
+export const MAX_PLAYLIST_SPINS = 50;
+
+/** One spin of a playlist: the scrobble at index `n` and its Spotify match. */
+export type PlaylistItem = {
+  n: number;
+  track: NonNullable<Track["track"]>;
+  spotify: Track["spotify"];
+  uts: number | null;
+};
+
+export type PlaylistFormat = "m3u" | "xspf" | "json" | "csv";
+
+export const PLAYLIST_FORMATS: Array<{
+  value: PlaylistFormat;
+  label: string;
+  mime: string;
+}> = [
+  { value: "m3u", label: "M3U", mime: "audio/x-mpegurl" },
+  { value: "xspf", label: "XSPF", mime: "application/xspf+xml" },
+  { value: "json", label: "JSON", mime: "application/json" },
+  { value: "csv", label: "CSV", mime: "text/csv" },
+];
+
+/** Shows a playlist item on the result card and the reels. */
+export function itemAsTrack(item: PlaylistItem): Track {
+  return {
+    track: item.track,
+    spotify: item.spotify,
+    n: item.n,
+    uts: item.uts,
+  };
+}
+
+/** Where a player should look for the track: Spotify, else Last.fm. */
+function locationOf(item: PlaylistItem) {
+  return item.spotify?.url ?? item.track.url ?? "";
+}
+
+function scrobbledAt(item: PlaylistItem) {
+  return item.uts !== null ? new Date(item.uts * 1000).toISOString() : "";
+}
+
+function toM3U(items: PlaylistItem[]) {
+  const lines = ["#EXTM3U"];
+  for (const item of items) {
+    lines.push(
+      `#EXTINF:-1,${item.track.artist["#text"]} - ${item.track.name}`,
+      locationOf(item)
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function toXSPF(items: PlaylistItem[], title: string) {
+  const tracks = items.map((item) => {
+    const fields = [
+      ["location", locationOf(item)],
+      ["creator", item.track.artist["#text"]],
+      ["title", item.track.name],
+      ["album", item.track.album["#text"]],
+      ["annotation", item.track.date?.["#text"] ?? ""],
+      ["info", item.track.url ?? ""],
+    ]
+      .filter(([, value]) => value)
+      .map(([tag, value]) => `      <${tag}>${escapeXml(value)}</${tag}>`);
+    return ["    <track>", ...fields, "    </track>"].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(title)}</title>`,
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+function toJSON(items: PlaylistItem[], title: string) {
+  const tracks = items.map((item) => ({
+    artist: item.track.artist["#text"],
+    title: item.track.name,
+    album: item.track.album["#text"] || null,
+    scrobbledAt: scrobbledAt(item) || null,
+    n: item.n,
+    spotify: item.spotify?.url ?? null,
+    lastfm: item.track.url ?? null,
+  }));
+  return JSON.stringify({ title, tracks }, null, 2) + "\n";
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; a
+// leading ' keeps it text (a track named "=HYPERLINK(…)" stays a name)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(raw: string) {
+  const s = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCSV(items: PlaylistItem[]) {
+  const rows = [["artist", "title", "album", "scrobbled_at"]];
+  for (const item of items) {
+    rows.push([
+      item.track.artist["#text"],
+      item.track.name,
+      item.track.album["#text"],
+      scrobbledAt(item),
+    ]);
+  }
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Serializes `items` in `format`. `title` names the playlist in the formats
+ * that have a title (XSPF, JSON).
+ */
+export function exportPlaylist(
+  items: PlaylistItem[],
+  format: PlaylistFormat,
+  title: string
+) {
+  switch (format) {
+    case "m3u":
+      return toM3U(items);
+    case "xspf":
+      return toXSPF(items, title);
+    case "json":
+      return toJSON(items, title);
+    case "csv":
+      return toCSV(items);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Runs many scrobble spins in one go for the playlist route: random indices
+ * into the (ranged) history, looked up like get-nth-song does, with repeat
+ * tracks dropped and each kept track matched on Spotify.
+ *
+ * Repeats are redrawn, up to MAX_DRAWS_PER_SPIN draws per requested spin,
+ * so a small or repetitive window can yield a shorter playlist.
+ *
+ * Server-only.
+ */
+
+import { durationOf, fetchTrackInfo, trackKey, TimeRange } from "@/lib/lastfm";
+import type { PlaylistItem } from "@/lib/playlist";
+import { findScrobble } from "@/lib/scrobbles";
+import { findSpotifyTrack } from "@/lib/spotify";
+
+const MAX_DRAWS_PER_SPIN = 3;
+// Lookups in flight at once; live ones each fetch a Last.fm page
+const SPIN_BATCH = 5;
+
+export async function spinPlaylist(
+  user: string,
+  count: number,
+  maxPlaycount: number,
+  range: TimeRange,
+  market: string
+): Promise<
+  | { items: PlaylistItem[]; total: number; source: "local" | "live" }
+  | { error: string; status: number }
+> {
+  let total = maxPlaycount;
+  let source: "local" | "live" = "live";
+  const drawn = new Set<number>();
+  const seen = new Set<string>();
+  const picks: Omit<PlaylistItem, "spotify">[] = [];
+
+  let draws = count * MAX_DRAWS_PER_SPIN;
+  while (picks.length < count && draws > 0 && drawn.size < total) {
+    const batch: number[] = [];
+    while (batch.length < SPIN_BATCH && draws > 0 && drawn.size < total) {
+      const n = Math.floor(Math.random() * total) + 1;
+      draws--;
+      if (drawn.has(n)) continue;
+      drawn.add(n);
+      batch.push(n);
+    }
+
+    const found = await Promise.all(
+      batch.map((n) => findScrobble(user, n, total, range))
+    );
+    for (const [i, result] of found.entries()) {
+      if ("error" in result) {
+        // A missing index just means the history moved; anything else is real
+        if (result.status === 404) continue;
+        return result;
+      }
+      total = result.total;
+      source = result.source;
+      const key = trackKey(result.track.artist["#text"], result.track.name);
+      if (seen.has(key) || picks.length >= count) continue;
+      seen.add(key);
+      picks.push({
+        n: batch[i],
+        track: result.track,
+        uts: result.track.date?.uts ? Number(result.track.date.uts) : null,
+      });
+    }
+  }
+
+  // --- Spotify matches (best-effort; missing credentials just mean none) ---
+  // Durations from track.getInfo, as in loadScrobble
+  const apiKey = process.env.LASTFM_API_KEY;
+  const spotify: PlaylistItem["spotify"][] = [];
+  for (let i = 0; i < picks.length; i += SPIN_BATCH) {
+    const batch = picks.slice(i, i + SPIN_BATCH);
+    spotify.push(
+      ...(await Promise.all(
+        batch.map(async (p) => {
+          const info = apiKey
+            ? await fetchTrackInfo(
+                apiKey,
+                p.track.artist["#text"],
+                p.track.name
+              )
+            : null;
+          return findSpotifyTrack(
+            {
+              artist: p.track.artist["#text"],
+              title: p.track.name,
+              album: p.track.album["#text"] || undefined,
+              durationMs: durationOf(info),
+            },
+            market
+          ).catch(() => null);
+        })
+      ))
+    );
+  }
+
+  return {
+    items: picks.map((p, i) => ({ ...p, spotify: spotify[i] })),
+    total,
+    source,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Rate limiting: the in-memory token buckets, and what the middleware
+ * charges each route against them.
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+// Before ./memory, which imports from it
+import { RATE_RULES, routeCost } from "@/lib/rateLimit";
+import { memoryStore } from "@/lib/rateLimit/memory";
+import { middleware } from "@/middleware";
+
+const RULE = { capacity: 10, refillPerS: 2 };
+
+afterEach(() => mock.restoreAll());
+
+// Date.now at `clock.ms`, moved by the test
+function mockClock() {
+  const clock = { ms: 1_700_000_000_000 };
+  mock.method(Date, "now", () => clock.ms);
+  return clock;
+}
+
+describe("memoryStore", () => {
+  it("starts full and takes the cost from the bucket", async () => {
+    mockClock();
+    const store = memoryStore();
+    assert.deepEqual(await store.take("k", RULE, 4), {
+      allowed: true,
+      retryAfterS: 0,
+    });
+    assert.equal((await store.take("k", RULE, 6)).allowed, true);
+    assert.deepEqual(await store.take("k", RULE, 1), {
+      allowed: false,
+      retryAfterS: 1,
+    });
+  });
+
+  it("refills at refillPerS and says how long until the cost is back", async () => {
+    const clock = mockClock();
+    const store = memoryStore();
+    await store.take("k", RULE, 10);
+    assert.deepEqual(await store.take("k", RULE, 5), {
+      allowed: false,
+      retryAfterS: 3,
+    });
+    clock.ms += 2000;
+    assert.equal((await store.take("k", RULE, 5)).allowed, false);
+    clock.ms += 500;
+    assert.equal((await store.take("k", RULE, 5)).allowed, true);
+    assert.equal((await store.take("k", RULE, 1)).allowed, false);
+  });
+
+  it("never refills past capacity", async () => {
+    const clock = mockClock();
+    const store = memoryStore();
+    await store.take("k", RULE, 1);
+    clock.ms += 3_600_000;
+    assert.equal((await store.take("k", RULE, 10)).allowed, true);
+    assert.equal((await store.take("k", RULE, 1)).allowed, false);
+  });
+
+  it("keeps a bucket per key", async () => {
+    mockClock();
+    const store = memoryStore();
+    await store.take("a", RULE, 10);
+    assert.equal((await store.take("a", RULE, 1)).allowed, false);
+    assert.equal((await store.take("b", RULE, 10)).allowed, true);
+  });
+
+  it("does not charge a denied request", async () => {
+    mockClock();
+    const store = memoryStore();
+    await store.take("k", RULE, 7);
+    assert.equal((await store.take("k", RULE, 5)).allowed, false);
+    assert.equal((await store.take("k", RULE, 3)).allowed, true);
+  });
+});
+
+describe("routeCost", () => {
+  it("lets sync status polls through for free", () => {
+    assert.equal(routeCost("GET", "/api/lastfm/sync"), 0);
+    assert.equal(routeCost("get", "/api/lastfm/sync"), 0);
+  });
+
+  it("charges more for routes that fan out", () => {
+    assert.equal(routeCost("POST", "/api/lastfm/sync"), 10);
+    for (const route of [
+      "playlist",
+      "blend-count",
+      "get-nth-blend",
+      "filtered-count",
+      "get-filtered-song",
+    ]) {
+      assert.equal(routeCost("GET", `/api/lastfm/${route}`), 10, route);
+    }
+    assert.equal(routeCost("GET", "/api/lastfm/get-forgotten"), 5);
+  });
+
+  it("charges one for everything else", () => {
+    assert.equal(routeCost("GET", "/api/lastfm/get-nth-song"), 1);
+    assert.equal(routeCost("POST", "/api/lastfm/playlist"), 1);
+    assert.equal(routeCost("GET", "/u/someone/12"), 1);
+  });
+});
+
+describe("middleware", () => {
+  // One client per test, so the shared buckets don't carry over
+  let clients = 0;
+  const client = () => `203.0.113.${++clients}`;
+
+  const send = (ip: string, path: string, method = "GET") =>
+    middleware(
+      new NextRequest(`http://localhost${path}`, {
+        method,
+        headers: { "x-forwarded-for": ip },
+      })
+    );
+
+  async function allowedOf(count: number, request: () => Promise<Response>) {
+    let allowed = 0;
+    for (let i = 0; i < count; i++) {
+      if ((await request()).status !== 429) allowed++;
+    }
+    return allowed;
+  }
+
+  it("charges one per request by default", async () => {
+    const ip = client();
+    const { capacity } = RATE_RULES.ip;
+    assert.equal(
+      await allowedOf(capacity + 1, () =>
+        send(ip, "/api/lastfm/max-playcount")
+      ),
+      capacity
+    );
+  });
+
+  it("never limits sync status polls", async () => {
+    const ip = client();
+    assert.equal(
+      await allowedOf(RATE_RULES.ip.capacity * 2, () =>
+        send(ip, "/api/lastfm/sync?user=poller")
+      ),
+      RATE_RULES.ip.capacity * 2
+    );
+  });
+
+  it("charges a route's cost to the client", async () => {
+    const ip = client();
+    const perClient =
+      RATE_RULES.ip.capacity / routeCost("GET", "/api/lastfm/playlist");
+    assert.equal(
+      await allowedOf(perClient + 1, () => send(ip, "/api/lastfm/playlist")),
+      perClient
+    );
+  });
+
+  it("charges a route's cost to every user it names", async () => {
+    const cost = routeCost("POST", "/api/lastfm/sync");
+    const perUser = RATE_RULES.user.capacity / cost;
+    assert.equal(
+      await allowedOf(perUser + 1, () =>
+        send(client(), "/api/lastfm/sync?user=importer", "POST")
+      ),
+      perUser
+    );
+
+    const refused = await send(
+      client(),
+      "/api/lastfm/sync?user=importer",
+      "POST"
+    );
+    assert.equal(refused.status, 429);
+    assert.equal((await refused.json()).code, "rate_limited");
+    assert.ok(Number(refused.headers.get("Retry-After")) >= 1);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Token-bucket rate limits for the API routes, enforced by middleware.ts
+ * per client IP and per Last.fm username, so nobody can spend our Last.fm
+ * key or Spotify credentials faster than a listener spinning by hand.
+ *
+ * Buckets live in the store picked by SLOTFM_RATE_LIMIT_STORE:
+ *   memory (default)  this process only
+ *   redis             shared through SLOTFM_REDIS_URL / SLOTFM_REDIS_TOKEN
+ * A failing store lets requests through rather than taking the app down.
+ *
+ * Runs in the middleware (edge) runtime: no Node-only imports.
+ */
+
+import { memoryStore } from "./memory";
+import { redisStore } from "./redis";
+
+/** A bucket holds `capacity` tokens and regains `refillPerS` a second. */
+export type RateRule = { capacity: number; refillPerS: number };
+
+export type RateDecision = { allowed: boolean; retryAfterS: number };
+
+export interface RateLimitStore {
+  name: string;
+  /** Takes `cost` tokens from `key`'s bucket when it has them. */
+  take(key: string, rule: RateRule, cost: number): Promise<RateDecision>;
+}
+
+export const RATE_RULES = {
+  /** A burst of a minute's spinning, then one request a second */
+  ip: { capacity: 60, refillPerS: 1 },
+  /** Lower per user: one user is usually one listener */
+  user: { capacity: 30, refillPerS: 0.5 },
+} as const satisfies Record<string, RateRule>;
+
+// Tokens a request takes, by "METHOD /path"; one unless listed. Routes
+// that fan out into many Last.fm calls cost more (less than their worst
+// case: what they fetch is cached for the next spin)
+const ROUTE_COSTS: Record<string, number> = {
+  // Status polls only read the local index
+  "GET /api/lastfm/sync": 0,
+  "POST /api/lastfm/sync": 10,
+  "GET /api/lastfm/playlist": 10,
+  // Up to BLEND_PAGES top-list pages per member
+  "GET /api/lastfm/blend-count": 10,
+  "GET /api/lastfm/get-nth-blend": 10,
+  // Up to MAX_TAG_ARTISTS tag lookups
+  "GET /api/lastfm/filtered-count": 10,
+  "GET /api/lastfm/get-filtered-song": 10,
+  // Track info and last play per candidate
+  "GET /api/lastfm/get-forgotten": 5,
+};
+
+/** Tokens a `method` request to `pathname` takes; 0 means free. */
+export function routeCost(method: string, pathname: string) {
+  return ROUTE_COSTS[`${method.toUpperCase()} ${pathname}`] ?? 1;
+}
+
+/** Whole seconds until a bucket `missing` tokens short can pay. */
+export function retryAfter(missing: number, rule: RateRule) {
+  return Math.max(1, Math.ceil(missing / rule.refillPerS));
+}
+
+function configuredStore(): RateLimitStore {
+  if (process.env.SLOTFM_RATE_LIMIT_STORE === "redis") {
+    const url = process.env.SLOTFM_REDIS_URL;
+    const token = process.env.SLOTFM_REDIS_TOKEN;
+    if (url && token) return redisStore(url, token);
+    console.error(
+      "SLOTFM_RATE_LIMIT_STORE=redis needs SLOTFM_REDIS_URL and _TOKEN."
+    );
+  }
+  return memoryStore();
+}
+
+const store = configuredStore();
+
+/**
+ * Charges one request against every bucket it counts towards (its IP and
+ * each username it names). Denied as soon as one bucket is empty, with
+ * the longest wait any of them asks for.
+ */
+export async function chargeRequest(
+  ip: string,
+  users: string[],
+  cost = 1
+): Promise<RateDecision> {
+  const charges: Array<[string, RateRule]> = [
+    [`ip:${ip}`, RATE_RULES.ip],
+    ...users.map((u): [string, RateRule] => [
+      `user:${u.toLowerCase()}`,
+      RATE_RULES.user,
+    ]),
+  ];
+  try {
+    const decisions = await Promise.all(
+      charges.map(([key, rule]) =>
+        store.take(key, rule, Math.min(cost, rule.capacity))
+      )
+    );
+    const denied = decisions.filter((d) => !d.allowed);
+    return denied.length
+      ? {
+          allowed: false,
+          retryAfterS: Math.max(...denied.map((d) => d.retryAfterS)),
+        }
+      : { allowed: true, retryAfterS: 0 };
+  } catch (error) {
+    console.error(`Rate limit store ${store.name} failed:`, error);
+    return { allowed: true, retryAfterS: 0 };
+  }
+}
@@ -0,0 +1,43 @@
+import { RateLimitStore, retryAfter } from "./index";
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const SWEEP_EVERY_MS = 60_000;
+
+/**
+ * Buckets in a Map. Full buckets carry no information, so the sweep drops
+ * any that would have refilled by now.
+ */
+export function memoryStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket & { fullAt: number }>();
+  let sweptAt = Date.now();
+  return {
+    name: "memory",
+    async take(key, rule, cost) {
+      const now = Date.now();
+      if (now - sweptAt > SWEEP_EVERY_MS) {
+        sweptAt = now;
+        for (const [k, b] of buckets) if (b.fullAt <= now) buckets.delete(k);
+      }
+
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(
+            rule.capacity,
+            bucket.tokens + ((now - bucket.updatedAt) / 1000) * rule.refillPerS
+          )
+        : rule.capacity;
+      const allowed = tokens >= cost;
+      if (allowed) tokens -= cost;
+      buckets.set(key, {
+        tokens,
+        updatedAt: now,
+        fullAt: now + ((rule.capacity - tokens) / rule.refillPerS) * 1000,
+      });
+      return {
+        allowed,
+        retryAfterS: allowed ? 0 : retryAfter(cost - tokens, rule),
+      };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { redisCommand } from "@/lib/cache/redis";
+import { RateLimitStore, retryAfter } from "./index";
+
+// Refill and take in one step on the Redis side, timed by Redis' clock so
+// every app instance agrees. Returns { allowed, tokens left as a string }.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local t = redis.call('TIME')
+local now = t[1] * 1000 + math.floor(t[2] / 1000)
+local b = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(b[1]) or capacity
+local ts = tonumber(b[2]) or now
+tokens = math.min(capacity, tokens + (now - ts) / 1000 * rate)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / rate * 1000) + 1)
+return { allowed, tostring(tokens) }
+`;
+
+/** Buckets as Redis hashes that expire once they would be full again. */
+export function redisStore(url: string, token: string): RateLimitStore {
+  const command = redisCommand(url, token);
+  return {
+    name: "redis",
+    async take(key, rule, cost) {
+      const [allowed, tokens] = (await command([
+        "EVAL",
+        TAKE_SCRIPT,
+        1,
+        `slotfm:rate:${key}`,
+        rule.capacity,
+        rule.refillPerS,
+        cost,
+      ])) as [number, string];
+      return allowed === 1
+        ? { allowed: true, retryAfterS: 0 }
+        : {
+            allowed: false,
+            retryAfterS: retryAfter(cost - Number(tokens), rule),
+          };
+    },
+  };
+}
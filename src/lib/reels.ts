@@ -0,0 +1,75 @@
+/**
+ * What the slot reels show: the rolled index (as many reels as the pool's
+ * count has digits) or the rolled scrobble's date as YYYY-MM-DD reels.
+ * Dates use the browser's local time zone, like spinRange.
+ */
+
+import type { Track } from "@/lib/track";
+
+export type ReelDisplay = "index" | "date";
+
+export const REEL_DISPLAYS: Array<{ id: ReelDisplay; label: string }> = [
+  { id: "index", label: "Index" },
+  { id: "date", label: "Date" },
+];
+
+/** Reel count before anything has been counted. */
+export const DEFAULT_REEL_COUNT = 7;
+
+/** YYYYMMDD */
+export const DATE_REEL_COUNT = 8;
+
+/** Reels followed by a "-" in date display. */
+export const DATE_SEPARATORS_AFTER = [3, 5];
+
+export function isReelDisplay(value: unknown): value is ReelDisplay {
+  return REEL_DISPLAYS.some((d) => d.id === value);
+}
+
+/** Enough reels for every index up to `max`. */
+export function reelCountFor(max: number | null) {
+  return max && max > 0 ? String(max).length : DEFAULT_REEL_COUNT;
+}
+
+/** Left-pads `n` with zeros to `length` reel digits (keeps rightmost). */
+export function toDigits(n: number, length: number) {
+  const digits = String(n).split("").map(Number).slice(-length);
+  return Array(Math.max(0, length - digits.length))
+    .fill(0)
+    .concat(digits);
+}
+
+export function fromDigits(digits: number[]) {
+  return digits.reduce((acc, d) => acc * 10 + d, 0);
+}
+
+/** Local calendar date of `uts` as YYYYMMDD reel digits. */
+export function dateDigits(uts: number) {
+  const d = new Date(uts * 1000);
+  return [
+    ...toDigits(d.getFullYear(), 4),
+    ...toDigits(d.getMonth() + 1, 2),
+    ...toDigits(d.getDate(), 2),
+  ];
+}
+
+/** Local midnight of YYYYMMDD reel digits, or null if not a real date. */
+export function dateFromDigits(digits: number[]) {
+  if (digits.length !== DATE_REEL_COUNT) return null;
+  const year = fromDigits(digits.slice(0, 4));
+  const month = fromDigits(digits.slice(4, 6));
+  const day = fromDigits(digits.slice(6, 8));
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : null;
+}
+
+/** Scrobble time of a result, when it has one (top-list items don't). */
+export function resultUts(result: Track | null | undefined) {
+  if (typeof result?.uts === "number") return result.uts;
+  const uts = Number(result?.track?.date?.uts);
+  return isNaN(uts) ? null : uts;
+}
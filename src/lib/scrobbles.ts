@@ -0,0 +1,192 @@
+/**
+ * Scrobble-by-index lookup shared by get-nth-song and the server-rendered
+ * permalink pages: `n` counts from the oldest scrobble (inside `range`).
+ *
+ * Server-only.
+ */
+
+import { recentPageTtl } from "@/lib/cache";
+import { enrichTrack, EnrichmentOptions } from "@/lib/enrichment";
+import { getLocalHistory } from "@/lib/historyStore";
+import {
+  buildLastFmUrl,
+  durationOf,
+  fetchTrackInfo,
+  LastFmTrack,
+  PAGE_LIMIT,
+  pageForPosition,
+  readRecentTracks,
+  TimeRange,
+} from "@/lib/lastfm";
+import { lastFmGet, LastFmFailure } from "@/lib/lastfmClient";
+
+export type ScrobbleLookup =
+  | { track: LastFmTrack; total: number; source: "local" | "live" }
+  | { error: string; status: number }
+  | LastFmFailure;
+
+/**
+ * Finds scrobble `n` (from the oldest) by paging user.getRecentTracks.
+ *
+ * Pages from the caller's total first; if Last.fm reports a different
+ * `@attr.total` (scrobbles landed in between, or the caller only guessed),
+ * redoes the maths once against it. Pages already fetched are reused.
+ */
+async function findLiveTrack(
+  user: string,
+  apiKey: string,
+  n: number,
+  maxPlaycount: number,
+  range: TimeRange
+): Promise<ScrobbleLookup> {
+  const pages = new Map<number, ReturnType<typeof readRecentTracks>>();
+  const fetchPage = async (page: number) => {
+    const cached = pages.get(page);
+    if (cached) return cached;
+
+    const url = buildLastFmUrl("user.getRecentTracks", apiKey, {
+      user,
+      limit: PAGE_LIMIT,
+      page,
+      from: range.from,
+      to: range.to,
+    });
+    const result = await lastFmGet(url, recentPageTtl(range));
+    if ("error" in result) return result;
+    const read = readRecentTracks(result.data);
+    pages.set(page, read);
+    return read;
+  };
+
+  let total = maxPlaycount;
+  let located: { page: number; indexInPage: number } | null = null;
+  let read: ReturnType<typeof readRecentTracks> | null = null;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    located = pageForPosition(total - n + 1);
+    const result = await fetchPage(located.page);
+    if ("error" in result) return result;
+    read = result;
+    if (read.total === null || read.total === total || attempt > 0) break;
+    total = read.total;
+    if (n > total) break;
+  }
+
+  const track =
+    located && read && n <= total
+      ? read.tracks[located.indexInPage]
+      : undefined;
+
+  if (!track) {
+    return { error: "Track not found at the specified index.", status: 404 };
+  }
+  return { track, total, source: "live" };
+}
+
+/**
+ * Finds scrobble `n` from the local history index when the user has one,
+ * from the live API otherwise.
+ *
+ * `maxPlaycount` is the caller's idea of the total; pass null when unknown
+ * (permalinks) and the live lookup will learn it from Last.fm.
+ */
+export async function findScrobble(
+  user: string,
+  n: number,
+  maxPlaycount: number | null,
+  range: TimeRange = {}
+): Promise<ScrobbleLookup> {
+  const local = await getLocalHistory(user);
+  if (local) {
+    const track = local.at(n, range);
+    return track
+      ? { track, total: local.count(range), source: "local" }
+      : { error: "Track not found at the specified index.", status: 404 };
+  }
+
+  const apiKey = process.env.LASTFM_API_KEY;
+  if (!apiKey) {
+    console.error("LASTFM_API_KEY is not configured on the server.");
+    return { error: "Server misconfigured: Missing API key", status: 500 };
+  }
+  // Guessing total = n probes page 1, whose `@attr.total` fixes the maths.
+  return findLiveTrack(user, apiKey, n, maxPlaycount ?? n, range);
+}
+
+/**
+ * How many scrobbles `user` has inside `range`, counted the way findScrobble
+ * indexes them: by the local history index when the user has one, by
+ * user.getRecentTracks' `@attr.total` otherwise.
+ */
+export async function countScrobbles(
+  user: string,
+  range: TimeRange = {}
+): Promise<
+  | { total: number; source: "local" | "live" }
+  | { error: string; status: number }
+  | LastFmFailure
+> {
+  const local = await getLocalHistory(user);
+  if (local) return { total: local.count(range), source: "local" };
+
+  const apiKey = process.env.LASTFM_API_KEY;
+  if (!apiKey) {
+    console.error("LASTFM_API_KEY is not configured on the server.");
+    return { error: "Server misconfigured: Missing API key", status: 500 };
+  }
+  const url = buildLastFmUrl("user.getRecentTracks", apiKey, {
+    user,
+    limit: 1,
+    from: range.from,
+    to: range.to,
+  });
+  const result = await lastFmGet(url, recentPageTtl(range));
+  if ("error" in result) return result;
+  const { total } = readRecentTracks(result.data);
+  if (total === null) {
+    return {
+      error: "Could not find playcount for the specified user.",
+      status: 404,
+    };
+  }
+  return { total, source: "live" };
+}
+
+/**
+ * Scrobble `n` plus its service links: the get-nth-song response body, and
+ * what the permalink pages render on first load.
+ */
+export async function loadScrobble(
+  user: string,
+  n: number,
+  maxPlaycount: number | null,
+  range: TimeRange,
+  enrichment: EnrichmentOptions
+) {
+  const found = await findScrobble(user, n, maxPlaycount, range);
+  if ("error" in found) return found;
+  const { track, total, source } = found;
+
+  // --- Service enrichment (best-effort; never blocks success) ---
+  // Recent-tracks pages carry no duration; track.getInfo (cached for long)
+  // has the one Spotify matching weighs
+  const apiKey = process.env.LASTFM_API_KEY;
+  const info =
+    apiKey && enrichment.providers.includes("spotify")
+      ? await fetchTrackInfo(apiKey, track.artist["#text"], track.name)
+      : null;
+  const { spotify, links } = await enrichTrack(
+    track,
+    enrichment,
+    durationOf(info)
+  );
+
+  return {
+    track,
+    spotify, // { id, url, preview_url, name, artists } | null
+    links, // { [provider]: { id, url, preview } | null }
+    n,
+    total,
+    uts: track.date?.uts ? Number(track.date.uts) : null,
+    source,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Seeded spins: each cycle of a session is a permutation of 1..pool, and
+ * a seed always replays the same order.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isSpinSeed, seededIndex } from "@/lib/seededSpin";
+
+// Around the powers of four the Feistel halves are sized by, and a few
+// pools far from them (most of the domain is cycle-walked away)
+const POOLS = [1, 2, 3, 4, 5, 15, 16, 17, 63, 64, 65, 100, 257, 1000, 4097];
+
+const sequence = (seed: string, pool: number, from = 0) =>
+  Array.from({ length: pool }, (_, i) => seededIndex(seed, pool, from + i));
+
+const range = (pool: number) => Array.from({ length: pool }, (_, i) => i + 1);
+
+describe("seededIndex", () => {
+  for (const pool of POOLS) {
+    it(`visits every index of a pool of ${pool} once per cycle`, () => {
+      for (const seed of ["a", "2024-06-01", "user:token"]) {
+        for (const cycle of [0, 1, 2]) {
+          const sorted = sequence(seed, pool, cycle * pool).sort(
+            (a, b) => a - b
+          );
+          assert.deepEqual(sorted, range(pool), `${seed}, cycle ${cycle}`);
+        }
+      }
+    });
+  }
+
+  it("replays the same sequence from the same seed", () => {
+    for (const pool of [7, 100, 1000]) {
+      assert.deepEqual(sequence("replay", pool), sequence("replay", pool));
+      assert.deepEqual(
+        sequence("replay", pool, pool),
+        sequence("replay", pool, pool)
+      );
+    }
+  });
+
+  it("orders the pool differently for another seed or cycle", () => {
+    assert.notDeepEqual(sequence("one", 1000), sequence("two", 1000));
+    assert.notDeepEqual(sequence("one", 1000), sequence("one", 1000, 1000));
+  });
+});
+
+describe("isSpinSeed", () => {
+  it("accepts short word-like seeds", () => {
+    for (const seed of ["a", "2024-06-01", "user:token.1", "x".repeat(64)]) {
+      assert.ok(isSpinSeed(seed), seed);
+    }
+  });
+
+  it("rejects empty, long or unsafe seeds", () => {
+    for (const seed of ["", "x".repeat(65), "a b", "a/b", "a&b"]) {
+      assert.ok(!isSpinSeed(seed), seed);
+    }
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Seeded spins: the spin route picks indices itself from a seed, so a spin
+ * can be replayed from its seed and a session never lands on the same
+ * scrobble twice.
+ *
+ * A seed defines a pseudo-random permutation of 1..pool; spin `step` of a
+ * session is the permutation's step-th entry. Consecutive steps therefore
+ * differ until all `pool` indices have come up; after that the next cycle
+ * uses a fresh order. The permutation is a small Feistel network over the
+ * next power of four at or above `pool`, cycle-walked back into range, so
+ * nothing of size `pool` is ever built.
+ *
+ * Client-safe: pure functions.
+ */
+
+// Readable in a query string and long enough for a date or a token
+const SEED_PATTERN = /^[\w.:-]{1,64}$/;
+const ROUNDS = 4;
+
+export function isSpinSeed(value: string) {
+  return SEED_PATTERN.test(value);
+}
+
+// FNV-1a
+function hashString(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// murmur3's finaliser over two words
+function mix(a: number, b: number) {
+  let h = (a ^ Math.imul(b, 0x9e3779b9)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Index (1..pool) that spin `step` (0-based) of the session seeded with
+ * `seed` lands on. Steps 0..pool-1 visit every index exactly once.
+ */
+export function seededIndex(seed: string, pool: number, step: number) {
+  const cycle = Math.floor(step / pool);
+  const key = hashString(cycle ? `${seed}#${cycle}` : seed);
+
+  // Both halves range over [0, side); side² is at least pool
+  let side = 2;
+  while (side * side < pool) side *= 2;
+
+  const permute = (x: number) => {
+    let left = Math.floor(x / side);
+    let right = x % side;
+    for (let round = 0; round < ROUNDS; round++) {
+      const f = mix(mix(key, round), right) % side;
+      [left, right] = [right, (left + f) % side];
+    }
+    return left * side + right;
+  };
+
+  // Walking the cycle stays inside [0, pool) since permute is a bijection
+  let x = step % pool;
+  do x = permute(x);
+  while (x >= pool);
+  return x + 1;
+}
@@ -0,0 +1,83 @@
+/**
+ * Per-username spin history, persisted to localStorage.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { SpinMode } from "@/lib/spinModes";
+import { readStored, writeStored } from "@/lib/storage";
+import type { Track } from "@/lib/track";
+
+export type HistoryEntry = {
+  id: string;
+  /** ms timestamp of the spin */
+  at: number;
+  /** Index the reels landed on */
+  n: number;
+  mode: SpinMode;
+  /** Date-range label, for constrained spins */
+  rangeLabel?: string;
+  result: Track;
+  pinned: boolean;
+};
+
+// Pinned entries are never dropped; this caps the rest.
+const MAX_UNPINNED = 200;
+
+const storageKey = (user: string) => `slotfm:history:${user.toLowerCase()}`;
+
+function trim(entries: HistoryEntry[]) {
+  let unpinned = entries.filter((e) => !e.pinned).length;
+  return entries.filter((e) => e.pinned || unpinned-- <= MAX_UNPINNED);
+}
+
+/**
+ * History for `username`, oldest first. Switching username swaps in that
+ * user's saved history.
+ */
+export function useSpinHistory(username: string | null) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(
+      username ? readStored<HistoryEntry[]>(storageKey(username), []) : []
+    );
+  }, [username]);
+
+  const update = useCallback(
+    (fn: (prev: HistoryEntry[]) => HistoryEntry[]) => {
+      setEntries((prev) => {
+        const next = fn(prev);
+        if (username) writeStored(storageKey(username), next);
+        return next;
+      });
+    },
+    [username]
+  );
+
+  /** Records a spin and returns its entry id. */
+  const add = useCallback(
+    (entry: Omit<HistoryEntry, "id" | "at" | "pinned">) => {
+      const at = Date.now();
+      const id = `${at}-${entry.n}`;
+      update((prev) => trim([...prev, { ...entry, id, at, pinned: false }]));
+      return id;
+    },
+    [update]
+  );
+
+  const togglePin = useCallback(
+    (id: string) =>
+      update((prev) =>
+        prev.map((e) => (e.id === id ? { ...e, pinned: !e.pinned } : e))
+      ),
+    [update]
+  );
+
+  /** Drops everything except pinned favourites. */
+  const clear = useCallback(
+    () => update((prev) => prev.filter((e) => e.pinned)),
+    [update]
+  );
+
+  return { entries, add, togglePin, clear };
+}
@@ -0,0 +1,83 @@
+/**
+ * What a spin draws uniformly from. Shared by the page and the API routes.
+ *
+ * "scrobbles" indexes the listening history (so heavy rotation dominates);
+ * "gems" indexes the history before a cutoff and lands on a nearby track
+ * that is both old and rarely played; "blend" indexes the tracks several
+ * users have all scrobbled (party usernames only); the others index the
+ * user's overall top lists, one slot per distinct item.
+ */
+
+import type { TopListKind } from "@/lib/lastfm";
+
+export type SpinMode =
+  | "scrobbles"
+  | "tracks"
+  | "artists"
+  | "albums"
+  | "gems"
+  | "blend";
+
+export const SPIN_MODES: Array<{
+  id: SpinMode;
+  label: string;
+  /** Plural noun for status lines: "has 1234 unique tracks" */
+  noun: string;
+  route: string;
+  /**
+   * List the index runs over: recent tracks, one of the top lists, or the
+   * tracks several users have in common (see blend.ts)
+   */
+  pool: "recent" | TopListKind | "blend";
+}> = [
+  {
+    id: "scrobbles",
+    label: "Scrobble",
+    noun: "scrobbles",
+    route: "/api/lastfm/get-nth-song",
+    pool: "recent",
+  },
+  {
+    id: "tracks",
+    label: "Track",
+    noun: "unique tracks",
+    route: "/api/lastfm/get-nth-track",
+    pool: "tracks",
+  },
+  {
+    id: "artists",
+    label: "Artist",
+    noun: "artists",
+    route: "/api/lastfm/get-nth-artist",
+    pool: "artists",
+  },
+  {
+    id: "albums",
+    label: "Album",
+    noun: "albums",
+    route: "/api/lastfm/get-nth-album",
+    pool: "albums",
+  },
+  {
+    id: "gems",
+    label: "Forgotten",
+    noun: "scrobbles",
+    route: "/api/lastfm/get-forgotten",
+    pool: "recent",
+  },
+  {
+    id: "blend",
+    label: "Common ground",
+    noun: "tracks in common",
+    route: "/api/lastfm/get-nth-blend",
+    pool: "blend",
+  },
+];
+
+export function isSpinMode(value: unknown): value is SpinMode {
+  return SPIN_MODES.some((m) => m.id === value);
+}
+
+export function spinModeInfo(mode: SpinMode) {
+  return SPIN_MODES.find((m) => m.id === mode) ?? SPIN_MODES[0];
+}
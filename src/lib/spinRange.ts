@@ -0,0 +1,151 @@
+/**
+ * Client-side date-range presets for constrained spins.
+ *
+ * A selection is resolved into a unix-seconds window that the
+ * max-playcount and get-nth-song routes accept as `from`/`to`.
+ * All calendar math uses the browser's local time zone.
+ */
+
+export type RangePreset =
+  | "all"
+  | "year"
+  | "month"
+  | "lastSummer"
+  | "thisDay"
+  | "custom";
+
+export type RangeSelection = {
+  preset: RangePreset;
+  year: number;
+  /** "YYYY-MM", as produced by <input type="month"> */
+  month: string;
+  /** "YYYY-MM-DD", as produced by <input type="date"> */
+  from: string;
+  to: string;
+};
+
+export type ResolvedRange = { from: number; to: number; label: string };
+
+export const RANGE_PRESETS: Array<{ id: RangePreset; label: string }> = [
+  { id: "all", label: "All time" },
+  { id: "year", label: "Year" },
+  { id: "month", label: "Month" },
+  { id: "lastSummer", label: "Last summer" },
+  { id: "thisDay", label: "This day" },
+  { id: "custom", label: "Custom" },
+];
+
+export function defaultRangeSelection(now = new Date()): RangeSelection {
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  return {
+    preset: "all",
+    year,
+    month: `${year}-${month}`,
+    from: `${year}-01-01`,
+    to: `${year}-${month}-${String(now.getDate()).padStart(2, "0")}`,
+  };
+}
+
+const toUnix = (d: Date) => Math.floor(d.getTime() / 1000);
+
+/** Local-time window covering [start, end) as inclusive unix seconds. */
+function span(start: Date, end: Date, label: string): ResolvedRange {
+  return { from: toUnix(start), to: toUnix(end) - 1, label };
+}
+
+function parseLocalDate(value: string) {
+  const [y, m, d] = value.split("-").map(Number);
+  if (!y || !m || !d) return null;
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Years before the current one in which the account could have scrobbled.
+ * Falls back to the last decade when the registration time is unknown.
+ */
+export function pastYears(registered: number | null, now = new Date()) {
+  const current = now.getFullYear();
+  const first =
+    registered != null
+      ? new Date(registered * 1000).getFullYear()
+      : current - 10;
+  const years: number[] = [];
+  for (let y = current - 1; y >= first; y--) years.push(y);
+  return years;
+}
+
+/**
+ * Turns a selection into a concrete window.
+ * Returns null for "all time" and `{ error }` when the selection is unusable.
+ *
+ * "This day" picks one of `years` at random, so callers can retry with the
+ * years that turned out empty removed.
+ */
+export function resolveRange(
+  sel: RangeSelection,
+  opts: { years?: number[]; now?: Date } = {}
+): ResolvedRange | null | { error: string } {
+  const now = opts.now ?? new Date();
+
+  switch (sel.preset) {
+    case "all":
+      return null;
+
+    case "year": {
+      if (!Number.isInteger(sel.year) || sel.year < 2002) {
+        return { error: "Pick a year from 2002 on" };
+      }
+      return span(
+        new Date(sel.year, 0, 1),
+        new Date(sel.year + 1, 0, 1),
+        String(sel.year)
+      );
+    }
+
+    case "month": {
+      const start = parseLocalDate(`${sel.month}-01`);
+      if (!start) return { error: "Pick a month" };
+      const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+      const label = start.toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      });
+      return span(start, end, label);
+    }
+
+    case "lastSummer": {
+      // Most recent June–August that has fully ended.
+      const year =
+        now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1;
+      return span(new Date(year, 5, 1), new Date(year, 8, 1), `summer ${year}`);
+    }
+
+    case "thisDay": {
+      const years = opts.years ?? [];
+      if (years.length === 0) return { error: "No past years to spin" };
+      const year = years[Math.floor(Math.random() * years.length)];
+      const start = new Date(year, now.getMonth(), now.getDate());
+      const end = new Date(year, now.getMonth(), now.getDate() + 1);
+      const label = start.toLocaleDateString(undefined, {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+      });
+      return span(start, end, label);
+    }
+
+    case "custom": {
+      const start = parseLocalDate(sel.from);
+      const last = parseLocalDate(sel.to);
+      if (!start || !last) return { error: "Pick a start and end date" };
+      if (start > last) return { error: "Start date is after end date" };
+      const end = new Date(
+        last.getFullYear(),
+        last.getMonth(),
+        last.getDate() + 1
+      );
+      return span(start, end, `${sel.from} → ${sel.to}`);
+    }
+  }
+}
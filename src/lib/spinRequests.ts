@@ -0,0 +1,403 @@
+/**
+ * The spin page's requests: counting the pool a spin draws from (per mode,
+ * range, party and filters) and fetching the item it lands on. Failures
+ * come back as `{ error }` with the route's message.
+ *
+ * Client-side (uses fetch and navigator.language).
+ */
+
+import {
+  DEFAULT_PROVIDERS,
+  marketFromLocale,
+} from "@/lib/enrichment/providers";
+import { filterParams, SpinFilters } from "@/lib/filters";
+import { gemRange, GemSettings } from "@/lib/gems";
+import { Participant, PartyWeighting } from "@/lib/party";
+import type { PlaylistItem } from "@/lib/playlist";
+import { SpinMode, spinModeInfo } from "@/lib/spinModes";
+import {
+  pastYears,
+  RangeSelection,
+  resolveRange,
+  ResolvedRange,
+} from "@/lib/spinRange";
+import type { Track } from "@/lib/track";
+
+/** Party spins: who is in, and how the virtual pool is split. */
+export type PartySpin = {
+  participants: Participant[];
+  weighting: PartyWeighting;
+};
+
+/** What the reels currently index into. */
+export type SpinContext = {
+  mode: SpinMode;
+  range: ResolvedRange | null;
+  /** Forgotten-gems playcount ceiling */
+  maxPlays?: number;
+  party?: PartySpin;
+  /** Filtered scrobble spins */
+  filters?: SpinFilters;
+};
+
+export type PlaycountResult = {
+  maxPlaycount: number;
+  registered: number | null;
+  participants?: Participant[];
+};
+
+export async function fetchMaxPlaycount(
+  user: string,
+  range?: Pick<ResolvedRange, "from" | "to"> | null,
+  mode: SpinMode = "scrobbles"
+): Promise<PlaycountResult | { error: string }> {
+  const params = new URLSearchParams({ user });
+  if (mode !== "scrobbles") params.set("mode", mode);
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  try {
+    const res = await fetch(`/api/lastfm/max-playcount?${params.toString()}`);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Server error" };
+    if (typeof data.maxPlaycount !== "number") return { error: "No data" };
+    return {
+      maxPlaycount: data.maxPlaycount,
+      registered: typeof data.registered === "number" ? data.registered : null,
+    };
+  } catch {
+    return { error: "Error fetching" };
+  }
+}
+
+/** Counts a party's pool; `registered` is the oldest participant's. */
+async function fetchPartyPlaycount(
+  users: string[],
+  range: ResolvedRange | null,
+  weighting: PartyWeighting
+): Promise<PlaycountResult | { error: string }> {
+  const params = new URLSearchParams({ users: users.join(","), weighting });
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  try {
+    const res = await fetch(`/api/lastfm/party-playcount?${params.toString()}`);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Server error" };
+    const participants: Participant[] = data.participants;
+    const registered = participants
+      .map((p) => p.registered)
+      .filter((r): r is number => r !== null);
+    return {
+      maxPlaycount: data.maxPlaycount,
+      registered: registered.length ? Math.min(...registered) : null,
+      participants,
+    };
+  } catch {
+    return { error: "Error fetching" };
+  }
+}
+
+/** Counts the scrobbles a filtered spin draws from. */
+async function fetchFilteredCount(
+  user: string,
+  range: ResolvedRange | null,
+  filters: SpinFilters
+): Promise<PlaycountResult | { error: string }> {
+  const params = new URLSearchParams({ user, ...filterParams(filters) });
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  try {
+    const res = await fetch(`/api/lastfm/filtered-count?${params.toString()}`);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Server error" };
+    return { maxPlaycount: data.maxPlaycount, registered: null };
+  } catch {
+    return { error: "Error fetching" };
+  }
+}
+
+/** Counts the tracks all `users` have scrobbled. */
+async function fetchBlendCount(
+  users: string[]
+): Promise<PlaycountResult | { error: string }> {
+  const params = new URLSearchParams({ users: users.join(",") });
+  try {
+    const res = await fetch(`/api/lastfm/blend-count?${params.toString()}`);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Server error" };
+    return {
+      maxPlaycount: data.maxPlaycount,
+      registered: null,
+      participants: data.participants,
+    };
+  } catch {
+    return { error: "Error fetching" };
+  }
+}
+
+/** Recounts the pool a spin indexes into (party counts included). */
+export async function recountSpin(
+  user: string,
+  spin: SpinContext
+): Promise<{ maxPlaycount: number; spin: SpinContext } | { error: string }> {
+  if (!spin.party) {
+    const count = spin.filters
+      ? await fetchFilteredCount(user, spin.range, spin.filters)
+      : await fetchMaxPlaycount(user, spin.range, spin.mode);
+    return "error" in count
+      ? count
+      : { maxPlaycount: count.maxPlaycount, spin };
+  }
+  const users = spin.party.participants.map((p) => p.user);
+  const count =
+    spin.mode === "blend"
+      ? await fetchBlendCount(users)
+      : await fetchPartyPlaycount(users, spin.range, spin.party.weighting);
+  if ("error" in count) return count;
+  return {
+    maxPlaycount: count.maxPlaycount,
+    spin: {
+      ...spin,
+      party: { ...spin.party, participants: count.participants ?? [] },
+    },
+  };
+}
+
+/**
+ * Resolves the range selection and counts the scrobbles inside it.
+ * "This day" retries other past years when the picked one is empty.
+ * Gems count the history up to their cutoff; the top-list modes ignore the
+ * range and count the matching list. Parties pool their scrobbles;
+ * filters narrow a single user's.
+ */
+export async function fetchSpinWindow(
+  user: string,
+  selection: RangeSelection,
+  mode: SpinMode,
+  gems: GemSettings,
+  party: { users: string[]; weighting: PartyWeighting } | null,
+  filters: SpinFilters | null
+): Promise<
+  | {
+      maxPlaycount: number;
+      range: ResolvedRange | null;
+      participants?: Participant[];
+    }
+  | { error: string }
+> {
+  if (mode === "blend") {
+    if (!party) {
+      return { error: "Enter two or more usernames for a common-ground spin" };
+    }
+    const count = await fetchBlendCount(party.users);
+    if ("error" in count) return count;
+    if (count.maxPlaycount === 0) return { error: "No tracks in common" };
+    return {
+      maxPlaycount: count.maxPlaycount,
+      range: null,
+      participants: count.participants,
+    };
+  }
+  if (party && mode !== "scrobbles") {
+    return { error: "Party spins only cover scrobbles" };
+  }
+  if (party && filters) {
+    return { error: "Filters don't apply to party spins" };
+  }
+  const countScrobbles = (range: ResolvedRange | null) =>
+    party
+      ? fetchPartyPlaycount(party.users, range, party.weighting)
+      : filters
+      ? fetchFilteredCount(user, range, filters)
+      : fetchMaxPlaycount(user, range);
+  const matching = filters ? "matching " : "";
+
+  if (mode === "gems") {
+    const range = gemRange(gems);
+    const count = await fetchMaxPlaycount(user, range, mode);
+    if ("error" in count) return count;
+    if (count.maxPlaycount === 0) {
+      return { error: `No scrobbles from before ${range.label}` };
+    }
+    return { maxPlaycount: count.maxPlaycount, range };
+  }
+
+  if (mode !== "scrobbles") {
+    const count = await fetchMaxPlaycount(user, null, mode);
+    if ("error" in count) return count;
+    if (count.maxPlaycount === 0) return { error: "No data" };
+    return { maxPlaycount: count.maxPlaycount, range: null };
+  }
+
+  let years: number[] = [];
+  if (selection.preset === "thisDay") {
+    const total = await countScrobbles(null);
+    if ("error" in total) return total;
+    years = pastYears(total.registered);
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const range = resolveRange(selection, { years });
+    if (range && "error" in range) return range;
+
+    const count = await countScrobbles(range);
+    if ("error" in count) return count;
+    if (count.maxPlaycount > 0) {
+      return {
+        maxPlaycount: count.maxPlaycount,
+        range,
+        participants: count.participants,
+      };
+    }
+    if (!range) {
+      return { error: filters ? "No matching scrobbles" : "No data" };
+    }
+    if (selection.preset !== "thisDay") {
+      return { error: `No ${matching}scrobbles in ${range.label}` };
+    }
+    const emptyYear = new Date(range.from * 1000).getFullYear();
+    years = years.filter((y) => y !== emptyYear);
+  }
+  return { error: `No ${matching}scrobbles on this day in past years` };
+}
+
+/** URL of the nth-item route for the spin's mode, with its query string. */
+export function nthItemUrl(
+  user: string,
+  n: number,
+  maxPlaycount: number,
+  { mode, range, maxPlays, party, filters }: SpinContext
+) {
+  const params = new URLSearchParams(
+    party && mode === "blend"
+      ? { users: party.participants.map((p) => p.user).join(","), n: String(n) }
+      : party
+      ? {
+          users: party.participants.map((p) => p.user).join(","),
+          counts: party.participants.map((p) => p.playcount).join(","),
+          weighting: party.weighting,
+          n: String(n),
+        }
+      : filters
+      ? { user, n: String(n), ...filterParams(filters) }
+      : { user, n: String(n), maxPlaycount: String(maxPlaycount) }
+  );
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  if (maxPlays != null) params.set("maxPlays", String(maxPlays));
+  params.set("providers", DEFAULT_PROVIDERS.join(","));
+  params.set("market", marketFromLocale(navigator.language));
+  const route =
+    party && mode !== "blend"
+      ? "/api/lastfm/get-party-song"
+      : filters
+      ? "/api/lastfm/get-filtered-song"
+      : spinModeInfo(mode).route;
+  return `${route}?${params.toString()}`;
+}
+
+/** A run of seeded spins over one user's scrobbles in one window. */
+export type SeedSession = {
+  key: string;
+  seed: string;
+  step: number;
+  pool: number;
+};
+
+export function seedSessionKey(user: string, range: ResolvedRange | null) {
+  return `${user.toLowerCase()}|${range?.from ?? ""}|${range?.to ?? ""}`;
+}
+
+/**
+ * URL of the spin route, where the server picks the index. Continuing a
+ * session takes its next step over the same pool, so it never repeats.
+ */
+export function seededSpinUrl(
+  user: string,
+  range: ResolvedRange | null,
+  session: SeedSession | null
+) {
+  const params = new URLSearchParams({ user });
+  if (session) {
+    params.set("seed", session.seed);
+    params.set("step", String(session.step + 1));
+    params.set("pool", String(session.pool));
+  }
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  params.set("providers", DEFAULT_PROVIDERS.join(","));
+  params.set("market", marketFromLocale(navigator.language));
+  return `/api/lastfm/spin?${params.toString()}`;
+}
+
+/** Fetches a spin result; failures come back as `{ error }`. */
+export async function fetchTrack(
+  url: string
+): Promise<Track | { error: string }> {
+  try {
+    const res = await fetch(url);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Error fetching track" };
+    return data as Track;
+  } catch {
+    return { error: "Error fetching track" };
+  }
+}
+
+/** Runs `count` scrobble spins server-side (see the playlist route). */
+export async function fetchPlaylist(
+  user: string,
+  count: number,
+  maxPlaycount: number,
+  range: ResolvedRange | null
+): Promise<{ items: PlaylistItem[]; total: number } | { error: string }> {
+  const params = new URLSearchParams({
+    user,
+    count: String(count),
+    maxPlaycount: String(maxPlaycount),
+    market: marketFromLocale(navigator.language),
+  });
+  if (range) {
+    params.set("from", String(range.from));
+    params.set("to", String(range.to));
+  }
+  try {
+    const res = await fetch(`/api/lastfm/playlist?${params.toString()}`);
+    const data = await res.json();
+    if (!res.ok) return { error: data?.error ?? "Error fetching playlist" };
+    return { items: data.items, total: data.total };
+  } catch {
+    return { error: "Error fetching playlist" };
+  }
+}
+
+/**
+ * Index of the first scrobble on or after local day `day` within the spin's
+ * pool, clamped to [1, max]: the index a typed date reel lands on.
+ */
+export async function indexOfDate(
+  user: string,
+  day: Date,
+  max: number,
+  { mode, range }: SpinContext
+): Promise<number | { error: string }> {
+  const start = Math.floor(day.getTime() / 1000);
+  const from = range?.from ?? 0;
+  if (start <= from) return 1;
+  const before = await fetchMaxPlaycount(
+    user,
+    { from, to: Math.min(start - 1, range?.to ?? Infinity) },
+    mode
+  );
+  if ("error" in before) return before;
+  return Math.min(before.maxPlaycount + 1, max);
+}
@@ -0,0 +1,84 @@
+/**
+ * How the spin page presents a result: the reel digits, the permalink and
+ * the count line under the username.
+ *
+ * Client-safe.
+ */
+
+import { describeFilters } from "@/lib/filters";
+import type { PartyPick } from "@/lib/party";
+import { permalinkPath } from "@/lib/permalink";
+import {
+  dateDigits,
+  reelCountFor,
+  ReelDisplay,
+  resultUts,
+  toDigits,
+} from "@/lib/reels";
+import type { SpinContext } from "@/lib/spinRequests";
+import { SpinMode, spinModeInfo } from "@/lib/spinModes";
+import type { Track } from "@/lib/track";
+
+/** Dates only exist on scrobble-indexed results. */
+export function showsDates(display: ReelDisplay, mode: SpinMode) {
+  return display === "date" && spinModeInfo(mode).pool === "recent";
+}
+
+/**
+ * Reel digits for a result: its date when wanted and known, otherwise its
+ * index with enough reels for the pool's count `max`.
+ */
+export function reelsFor(
+  n: number,
+  result: Track | null,
+  max: number | null,
+  wantDates: boolean
+) {
+  const uts = wantDates ? resultUts(result) : null;
+  return uts !== null
+    ? { digits: dateDigits(uts), dates: true }
+    : {
+        digits: toDigits(n, reelCountFor(Math.max(max ?? 0, n))),
+        dates: false,
+      };
+}
+
+/**
+ * Permalinks address scrobbles by index, so only the scrobble-indexed
+ * modes get one; gems are plain scrobble indices below their cutoff.
+ */
+export function permalinkFor(
+  user: string,
+  n: number,
+  { mode, range, filters }: SpinContext,
+  party?: PartyPick
+) {
+  // The filters aren't part of a permalink, so its index would be wrong
+  if (filters) return undefined;
+  // Party results link to the scrobble in the participant's own history
+  if (party) return permalinkPath(party.user, party.n, range);
+  if (mode === "scrobbles") return permalinkPath(user, n, range);
+  if (mode === "gems") return permalinkPath(user, n);
+  return undefined;
+}
+
+export function countStatus(
+  user: string,
+  count: number,
+  { mode, range, party, filters }: SpinContext
+) {
+  const { noun } = spinModeInfo(mode);
+  const names = party?.participants.map((p) => p.user).join(", ");
+  const scrobbles = party?.participants.reduce((a, p) => a + p.playcount, 0);
+  const base = filters
+    ? `${user} has ${count} matching scrobbles (${describeFilters(filters)})`
+    : !party
+    ? `${user} has ${count} ${noun}`
+    : mode === "blend"
+    ? `${names} share ${count} ${noun}`
+    : `${names} have ${scrobbles} ${noun}`;
+  if (!range) return base;
+  return mode === "gems"
+    ? `${base} from before ${range.label}`
+    : `${base} in ${range.label}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Spotify lookups for Last.fm tracks (client-credentials flow).
+ *
+ * Server-only: reads SPOTIFY_CLIENT_ID / SPOTIFY_CLIENT_SECRET.
+ */
+
+import { cached, TTL } from "@/lib/cache";
+import {
+  MatchedBy,
+  MatchQuery,
+  primaryArtist,
+  scoreCandidate,
+  stripTitle,
+} from "@/lib/trackMatch";
+
+type SpotifyTrack = {
+  tracks: {
+    href: string;
+    limit: number;
+    next: string | null;
+    offset: number;
+    previous: string | null;
+    total: number;
+    items: {
+      id: string;
+      name: string;
+      external_urls: { spotify: string };
+      preview_url: string | null;
+      artists: Array<{ name: string }>;
+      album?: { name: string };
+      duration_ms?: number;
+    }[];
+  };
+};
+
+// ---- Spotify helpers ----
+type AppToken = { access_token: string; expires_in: number };
+
+/** App token, kept in this process only (refreshed 15s early). */
+async function getSpotifyAccessToken() {
+  const token = await cached<AppToken>(
+    "spotify:app-token",
+    (t) => t.expires_in * 1000 - 15_000,
+    requestAppToken,
+    { sharedStore: false }
+  );
+  return token.access_token;
+}
+
+async function requestAppToken(): Promise<AppToken> {
+  const cid = process.env.SPOTIFY_CLIENT_ID;
+  const secret = process.env.SPOTIFY_CLIENT_SECRET;
+  if (!cid || !secret) {
+    // If missing, we’ll just skip Spotify enrichment gracefully.
+    throw new Error("Missing Spotify credentials");
+  }
+  const body = new URLSearchParams({ grant_type: "client_credentials" });
+  const resp = await fetch("https://accounts.spotify.com/api/token", {
+    method: "POST",
+    headers: {
+      Authorization:
+        "Basic " + Buffer.from(`${cid}:${secret}`).toString("base64"),
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body,
+    cache: "no-store",
+  });
+  if (!resp.ok) {
+    throw new Error(`Spotify token error: ${resp.status} ${resp.statusText}`);
+  }
+  const data = (await resp.json()) as AppToken & { token_type: string };
+  return { access_token: data.access_token, expires_in: data.expires_in };
+}
+
+export function normalizeTitleForQuery(title: string) {
+  // Remove common suffixes like " - Radio Edit", " - Remastered 2014", "(feat. …)" etc.
+  // Keep this conservative to avoid nuking real titles.
+  return title
+    .replace(
+      /\s*-\s*(radio edit|remaster(?:ed)?(?: \d{4})?|live|mono|stereo).*$/i,
+      ""
+    )
+    .replace(
+      /\s*\((feat\.?|with|vs\.?|version|remaster(?:ed)?(?: \d{4})?)\b.*?\)\s*$/i,
+      ""
+    )
+    .trim();
+}
+
+export type SpotifyMatch = {
+  id: string;
+  url: string;
+  preview_url: string | null;
+  name: string;
+  artists: string[];
+  /** scoreCandidate's 0..1 agreement with the scrobble */
+  confidence: number;
+  matchedBy: MatchedBy;
+};
+
+// Candidates per search; enough to get past remasters and live cuts
+const SEARCH_LIMIT = 5;
+// Stop searching once a candidate scores this well
+const GOOD_ENOUGH = 0.9;
+// Below this a best candidate is a different song, not a shaky match
+const MIN_CONFIDENCE = 0.45;
+
+/**
+ * The searches to try, most precise first: quoted title and artist, then
+ * without featured artists, then scoped to the album, then unquoted.
+ * Duplicates (e.g. nothing to strip) are skipped.
+ */
+export function searchesFor({ artist, title, album }: MatchQuery) {
+  const cleaned = normalizeTitleForQuery(title);
+  const bare = stripTitle(title);
+  const searches: Array<[MatchedBy, string]> = [
+    ["exact", `track:"${cleaned}" artist:"${artist}"`],
+    ["no-feat", `track:"${bare}" artist:"${primaryArtist(artist)}"`],
+  ];
+  if (album) {
+    searches.push(["album", `track:"${bare}" album:"${stripTitle(album)}"`]);
+  }
+  searches.push(["loose", `${bare} ${primaryArtist(artist)}`]);
+  return searches.filter(
+    ([, q], i) => searches.findIndex(([, other]) => other === q) === i
+  );
+}
+
+async function searchTracks(token: string, q: string, market: string) {
+  const params = new URLSearchParams({
+    q,
+    type: "track",
+    limit: String(SEARCH_LIMIT),
+    market,
+  });
+  const resp = await fetch(`https://api.spotify.com/v1/search?${params}`, {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: "no-store",
+  });
+  // Soft-fail: null when Spotify is unhappy (rate limit, etc.)
+  if (!resp.ok) return null;
+  const data = (await resp.json()) as SpotifyTrack;
+  return data?.tracks?.items ?? [];
+}
+
+/**
+ * Best Spotify match for a scrobble. Runs the searches in turn, scoring
+ * every candidate (see trackMatch.ts), until one is good enough; returns
+ * the best seen with its `confidence` and the search that found it, or
+ * null when nothing resembles the track.
+ *
+ * Matches are cached for long; "no match" for less, and not at all when a
+ * search failed, so a rate limit doesn't stick.
+ */
+export async function findSpotifyTrack(
+  query: MatchQuery,
+  market = "US"
+): Promise<SpotifyMatch | null> {
+  const key = JSON.stringify([
+    query.artist,
+    query.title,
+    query.album ?? null,
+    query.durationMs ?? null,
+    market,
+  ]);
+  const { match } = await cached(
+    `spotify:match:${key}`,
+    (r) => (r.match ? TTL.spotifyMatch : r.complete ? TTL.serviceLookup : 0),
+    () => searchBestMatch(query, market)
+  );
+  return match;
+}
+
+async function searchBestMatch(
+  query: MatchQuery,
+  market: string
+): Promise<{ match: SpotifyMatch | null; complete: boolean }> {
+  const token = await getSpotifyAccessToken();
+
+  let best: SpotifyMatch | null = null;
+  let complete = true;
+  for (const [matchedBy, q] of searchesFor(query)) {
+    const found = await searchTracks(token, q, market);
+    if (!found) complete = false;
+    for (const t of found ?? []) {
+      const artists = Array.isArray(t.artists)
+        ? t.artists.map((a) => a.name)
+        : [];
+      const confidence = scoreCandidate(query, {
+        name: t.name,
+        artists,
+        album: t.album?.name,
+        durationMs: t.duration_ms,
+      });
+      if (best && confidence <= best.confidence) continue;
+      best = {
+        id: t.id,
+        url:
+          t.external_urls?.spotify ?? `https://open.spotify.com/track/${t.id}`,
+        preview_url: t.preview_url ?? null,
+        name: t.name,
+        artists,
+        confidence,
+        matchedBy,
+      };
+    }
+    if (best && best.confidence >= GOOD_ENOUGH) break;
+  }
+
+  return {
+    match: best && best.confidence >= MIN_CONFIDENCE ? best : null,
+    complete,
+  };
+}
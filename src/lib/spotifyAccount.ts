@@ -0,0 +1,101 @@
+/**
+ * The browser's side of the Spotify login (see spotifyAuth.ts): whether
+ * it is connected, and the account actions the spotify routes offer.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+
+type ActionResult = { error: string } | { ok: true };
+
+async function post(route: string, body: unknown): Promise<Response> {
+  return fetch(route, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readError(res: Response) {
+  const data = await res.json().catch(() => null);
+  return data?.error ?? "Spotify request failed";
+}
+
+export function useSpotifyAccount() {
+  // Until the session check answers, act as if login isn't available
+  const [available, setAvailable] = useState(false);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/spotify/session")
+      .then((res) => res.json())
+      .then((data) => {
+        setAvailable(Boolean(data?.available));
+        setConnected(Boolean(data?.connected));
+      })
+      .catch(() => {});
+  }, []);
+
+  /** Login URL that comes back to the current page. */
+  const loginHref = () =>
+    `/api/spotify/login?returnTo=${encodeURIComponent(
+      window.location.pathname + window.location.search
+    )}`;
+
+  const logout = useCallback(async () => {
+    await fetch("/api/spotify/session", { method: "DELETE" }).catch(() => {});
+    setConnected(false);
+  }, []);
+
+  /** Runs an account action; a lapsed login flips `connected` back off. */
+  const act = useCallback(
+    async (route: string, body: unknown): Promise<ActionResult> => {
+      try {
+        const res = await post(route, body);
+        if (res.status === 401) setConnected(false);
+        return res.ok ? { ok: true } : { error: await readError(res) };
+      } catch {
+        return { error: "Spotify request failed" };
+      }
+    },
+    []
+  );
+
+  const like = useCallback(
+    (id: string) => act("/api/spotify/like", { id }),
+    [act]
+  );
+  const queue = useCallback(
+    (id: string) => act("/api/spotify/queue", { id }),
+    [act]
+  );
+
+  /** Creates a private playlist; resolves to its Spotify URL. */
+  const createPlaylist = useCallback(
+    async (
+      name: string,
+      ids: string[]
+    ): Promise<{ error: string } | { url: string }> => {
+      try {
+        const res = await post("/api/spotify/playlist", { name, ids });
+        if (res.status === 401) setConnected(false);
+        if (!res.ok) return { error: await readError(res) };
+        return { url: (await res.json()).url };
+      } catch {
+        return { error: "Spotify request failed" };
+      }
+    },
+    []
+  );
+
+  return {
+    available,
+    connected,
+    loginHref,
+    logout,
+    like,
+    queue,
+    createPlaylist,
+  };
+}
+
+export type SpotifyAccount = ReturnType<typeof useSpotifyAccount>;
@@ -0,0 +1,326 @@
+/**
+ * Spotify login for acting on a listener's account (authorization code
+ * flow with PKCE), next to spotify.ts' app-only client-credentials lookups.
+ *
+ * The login route stores the PKCE verifier and `state` in a short-lived
+ * cookie; the callback trades the code for tokens and keeps them in the
+ * session cookie. Both cookies are sealed with AES-256-GCM under a key
+ * derived from SPOTIFY_COOKIE_SECRET, so the browser holds them but can't
+ * read or alter them. Access tokens are refreshed on use once they are
+ * about to expire; routes write the refreshed session back.
+ *
+ * Server-only: reads SPOTIFY_CLIENT_ID, SPOTIFY_COOKIE_SECRET and,
+ * optionally, SPOTIFY_REDIRECT_URI (defaults to /api/spotify/callback on
+ * the requesting origin; it must match the app's Spotify settings).
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+
+export const SESSION_COOKIE = "slotfm_spotify";
+export const PKCE_COOKIE = "slotfm_spotify_pkce";
+
+const SPOTIFY_API_ROOT = "https://api.spotify.com/v1";
+const SCOPES = [
+  "user-library-modify",
+  "user-modify-playback-state",
+  "playlist-modify-private",
+];
+// Sessions outlive access tokens; the refresh token keeps them going
+const SESSION_MAX_AGE_S = 60 * 60 * 24 * 30;
+const PKCE_MAX_AGE_S = 10 * 60;
+const REFRESH_EARLY_MS = 60_000;
+
+export type SpotifySession = {
+  accessToken: string;
+  refreshToken: string;
+  /** ms timestamp */
+  expiresAt: number;
+};
+
+/** What the login route hands the callback. */
+export type PkceState = { verifier: string; state: string; returnTo: string };
+
+type Failure = { error: string; status: number };
+
+function config(): { clientId: string; key: Buffer } | Failure {
+  const clientId = process.env.SPOTIFY_CLIENT_ID;
+  const secret = process.env.SPOTIFY_COOKIE_SECRET;
+  if (!clientId || !secret) {
+    console.error("Spotify login is not configured on the server.");
+    return {
+      error: "Server misconfigured: Missing Spotify login settings",
+      status: 500,
+    };
+  }
+  return { clientId, key: createHash("sha256").update(secret).digest() };
+}
+
+// ---- Sealed cookies ----
+
+function seal(value: unknown, key: Buffer) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const body = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64url");
+}
+
+/** The sealed value, or null when it is missing, tampered with or stale. */
+function unseal<T>(sealed: string | undefined, key: Buffer): T | null {
+  if (!sealed) return null;
+  try {
+    const raw = Buffer.from(sealed, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const text = Buffer.concat([
+      decipher.update(raw.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8");
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+function setSealedCookie(
+  res: NextResponse,
+  name: string,
+  value: unknown,
+  key: Buffer,
+  maxAge: number
+) {
+  res.cookies.set(name, seal(value, key), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge,
+  });
+}
+
+// ---- Authorization code + PKCE ----
+
+export function redirectUri(req: NextRequest) {
+  return (
+    process.env.SPOTIFY_REDIRECT_URI ??
+    new URL("/api/spotify/callback", req.url).toString()
+  );
+}
+
+/**
+ * `raw` as a path on this site (pathname and query), or "/" when it is
+ * anything else, so the callback can't be used as an open redirect.
+ * Backslashes and control characters are refused outright: browsers and
+ * the URL parser read "/\evil.com" as another host.
+ */
+export function sameSiteReturnTo(raw: string | null, req: NextRequest) {
+  if (!raw || !raw.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(raw)) {
+    return "/";
+  }
+  try {
+    const origin = new URL(req.url).origin;
+    const url = new URL(raw, origin);
+    return url.origin === origin ? url.pathname + url.search : "/";
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * Starts a login: returns Spotify's authorize URL and stores the verifier
+ * and state it needs on `res` once the caller has built it.
+ */
+export function beginLogin(
+  req: NextRequest,
+  returnTo: string
+): { url: string; remember: (res: NextResponse) => void } | Failure {
+  const conf = config();
+  if ("error" in conf) return conf;
+
+  const verifier = randomBytes(48).toString("base64url");
+  const state = randomBytes(16).toString("base64url");
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+
+  const url = new URL("https://accounts.spotify.com/authorize");
+  url.searchParams.set("client_id", conf.clientId);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("redirect_uri", redirectUri(req));
+  url.searchParams.set("code_challenge_method", "S256");
+  url.searchParams.set("code_challenge", challenge);
+  url.searchParams.set("state", state);
+  url.searchParams.set("scope", SCOPES.join(" "));
+
+  const pkce: PkceState = { verifier, state, returnTo };
+  return {
+    url: url.toString(),
+    remember: (res) =>
+      setSealedCookie(res, PKCE_COOKIE, pkce, conf.key, PKCE_MAX_AGE_S),
+  };
+}
+
+async function requestTokens(
+  params: Record<string, string>,
+  previous?: SpotifySession
+): Promise<SpotifySession | Failure> {
+  const resp = await fetch("https://accounts.spotify.com/api/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+    cache: "no-store",
+  });
+  if (!resp.ok) {
+    console.error(`Spotify token error: ${resp.status} ${resp.statusText}`);
+    return {
+      error: "Spotify login expired; connect again",
+      status: 401,
+    };
+  }
+  const data = (await resp.json()) as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in: number;
+  };
+  return {
+    accessToken: data.access_token,
+    // Refreshes may or may not rotate the refresh token
+    refreshToken: data.refresh_token ?? previous?.refreshToken ?? "",
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+}
+
+/**
+ * Finishes a login from the callback's `code` and `state`: checks the
+ * state against the PKCE cookie and stores the new session on `res`.
+ */
+export async function completeLogin(
+  req: NextRequest,
+  code: string,
+  state: string
+): Promise<
+  { returnTo: string; remember: (res: NextResponse) => void } | Failure
+> {
+  const conf = config();
+  if ("error" in conf) return conf;
+
+  const pkce = unseal<PkceState>(req.cookies.get(PKCE_COOKIE)?.value, conf.key);
+  if (!pkce || pkce.state !== state) {
+    return { error: "Spotify login expired or was tampered with", status: 400 };
+  }
+
+  const session = await requestTokens({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(req),
+    client_id: conf.clientId,
+    code_verifier: pkce.verifier,
+  });
+  if ("error" in session) return session;
+
+  return {
+    returnTo: pkce.returnTo,
+    remember: (res) => {
+      res.cookies.delete(PKCE_COOKIE);
+      setSealedCookie(
+        res,
+        SESSION_COOKIE,
+        session,
+        conf.key,
+        SESSION_MAX_AGE_S
+      );
+    },
+  };
+}
+
+// ---- Acting for the user ----
+
+/**
+ * The request's Spotify session, refreshed when its access token is about
+ * to expire. `remember` writes a refreshed session back (no-op otherwise).
+ */
+export async function userSession(
+  req: NextRequest
+): Promise<
+  { session: SpotifySession; remember: (res: NextResponse) => void } | Failure
+> {
+  const conf = config();
+  if ("error" in conf) return conf;
+
+  const stored = unseal<SpotifySession>(
+    req.cookies.get(SESSION_COOKIE)?.value,
+    conf.key
+  );
+  if (!stored) return { error: "Not connected to Spotify", status: 401 };
+  if (Date.now() < stored.expiresAt - REFRESH_EARLY_MS) {
+    return { session: stored, remember: () => {} };
+  }
+
+  const session = await requestTokens(
+    {
+      grant_type: "refresh_token",
+      refresh_token: stored.refreshToken,
+      client_id: conf.clientId,
+    },
+    stored
+  );
+  if ("error" in session) return session;
+  return {
+    session,
+    remember: (res) =>
+      setSealedCookie(
+        res,
+        SESSION_COOKIE,
+        session,
+        conf.key,
+        SESSION_MAX_AGE_S
+      ),
+  };
+}
+
+/**
+ * Calls the Web API as the user. Failures come back as `{ error, status }`
+ * ready for a JSON response; 404 from the player means no active device.
+ */
+export async function spotifyUserApi<T = unknown>(
+  session: SpotifySession,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<{ data: T | null } | Failure> {
+  const resp = await fetch(`${SPOTIFY_API_ROOT}${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${session.accessToken}`,
+      ...(init.body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    cache: "no-store",
+  });
+  if (!resp.ok) {
+    console.error(`Spotify API error: ${resp.status} ${resp.statusText}`);
+    if (resp.status === 401) {
+      return { error: "Spotify login expired; connect again", status: 401 };
+    }
+    if (resp.status === 403) {
+      return { error: "Spotify refused the request", status: 403 };
+    }
+    if (resp.status === 404 && path.startsWith("/me/player")) {
+      return { error: "No active Spotify device", status: 404 };
+    }
+    return { error: "Error talking to Spotify", status: resp.status };
+  }
+  // Several endpoints answer 204 or an empty 200
+  const text = await resp.text();
+  return { data: text ? (JSON.parse(text) as T) : null };
+}
+
+/** Spotify track ids are 22 base-62 characters. */
+export function isSpotifyId(id: unknown): id is string {
+  return typeof id === "string" && /^[0-9A-Za-z]{22}$/.test(id);
+}
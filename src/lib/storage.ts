@@ -0,0 +1,22 @@
+/**
+ * Tiny JSON wrappers around localStorage that never throw (private mode,
+ * quota, SSR) and fall back to a default.
+ */
+
+export function readStored<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStored(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or unavailable: the setting just won't persist.
+  }
+}
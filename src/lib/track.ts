@@ -0,0 +1,49 @@
+/**
+ * A spin result as the page receives it from the get-nth-* routes.
+ */
+
+import type { ProviderLinks } from "@/lib/enrichment/providers";
+import type { GemReason } from "@/lib/gems";
+import type { PartyPick } from "@/lib/party";
+import type { MatchedBy } from "@/lib/trackMatch";
+
+export type Track = {
+  track?: {
+    artist: { "#text": string };
+    name: string;
+    album: { "#text": string };
+    image: Array<{ "#text": string; size: string }>;
+    date?: { uts: string; "#text": string };
+    url?: string;
+  };
+  spotify?: {
+    id: string;
+    url: string;
+    preview_url: string | null;
+    name: string;
+    artists: string[];
+    confidence?: number;
+    matchedBy?: MatchedBy;
+  } | null;
+  links?: ProviderLinks;
+  // Set by the track/artist/album spin modes
+  rank?: number;
+  total?: number | null;
+  playcount?: number;
+  // Resolved index (counted from the oldest scrobble) and its timestamp
+  n?: number;
+  uts?: number | null;
+  gem?: GemReason;
+  /** Party spins: whose history the reels landed in */
+  party?: PartyPick;
+  /** Common-ground spins: each user's plays of the shared track */
+  blend?: Array<{ user: string; playcount: number }>;
+  /** Seeded spins: what replays this one (see the spin route) */
+  seed?: string;
+  step?: number;
+  pool?: number;
+  /** Daily spins: the day this is the pick of (YYYY-MM-DD, UTC) */
+  date?: string;
+  /** Shareable path for this result (set client-side; see permalink.ts) */
+  permalink?: string;
+};
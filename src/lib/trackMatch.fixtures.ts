@@ -0,0 +1,204 @@
+/**
+ * Tricky titles and credits as Last.fm and Spotify spell them, for the
+ * track-matching tests (trackMatch.test.ts).
+ */
+
+import type { MatchCandidate, MatchedBy, MatchQuery } from "@/lib/trackMatch";
+
+/** stripTitle: title as scrobbled → what is compared. */
+export const STRIPPED_TITLES: Array<[title: string, stripped: string]> = [
+  ["Song - 2011 Remaster", "Song"],
+  ["Song - Remastered 2009", "Song"],
+  ["Song (Remastered 2009)", "Song"],
+  ["Song [2019 Remaster]", "Song"],
+  ["Song - Radio Edit", "Song"],
+  ["Song [Radio Edit]", "Song"],
+  ["Song - Single Version", "Song"],
+  ["Song (Deluxe Edition)", "Song"],
+  ["Happy Birthday - Edit", "Happy Birthday"],
+  ["Song (feat. Drake)", "Song"],
+  ["Song [ft. Drake]", "Song"],
+  ["Song feat. Drake", "Song"],
+  ["Song (with Mabel)", "Song"],
+  ["Get Lucky (feat. Pharrell Williams) - Radio Edit", "Get Lucky"],
+  // Versions that sound different stay in the title
+  ["Song - Live", "Song - Live"],
+  ["Song (Live at Wembley)", "Song (Live at Wembley)"],
+  ["Song - Remix", "Song - Remix"],
+  // Release words that are part of the name
+  ["Editions of You", "Editions of You"],
+  ["Live Forever", "Live Forever"],
+  ["Mono No Aware", "Mono No Aware"],
+  ["Stereo Love", "Stereo Love"],
+  ["(Don't Fear) The Reaper", "(Don't Fear) The Reaper"],
+];
+
+/** primaryArtist: credit as scrobbled → the billed artist. */
+export const PRIMARY_ARTISTS: Array<[credit: string, primary: string]> = [
+  ["Daft Punk feat. Pharrell Williams", "Daft Punk"],
+  ["Silk Sonic ft. Bruno Mars", "Silk Sonic"],
+  ["Jay-Z featuring Alicia Keys", "Jay-Z"],
+  ["Calvin Harris, Dua Lipa", "Calvin Harris"],
+  ["Skrillex x Diplo", "Skrillex"],
+  ["Armin van Buuren vs. Tiësto", "Armin van Buuren"],
+  // scoreCandidate also tries the whole credit, so duos still match
+  ["Simon & Garfunkel", "Simon"],
+  ["Beyoncé", "Beyoncé"],
+  ["AC/DC", "AC/DC"],
+  ["Xzibit", "Xzibit"],
+];
+
+type MatchFixture = {
+  why: string;
+  query: MatchQuery;
+  candidate: MatchCandidate;
+};
+
+/** Same recording however it is labelled: a confident match. */
+export const SAME_RECORDING: MatchFixture[] = [
+  {
+    why: "remaster suffix on the candidate",
+    query: { artist: "The Beatles", title: "Here Comes the Sun" },
+    candidate: {
+      name: "Here Comes The Sun - Remastered 2009",
+      artists: ["The Beatles"],
+    },
+  },
+  {
+    why: "accents dropped on one side",
+    query: { artist: "Sigur Rós", title: "Hoppípolla" },
+    candidate: { name: "Hoppipolla", artists: ["Sigur Ros"] },
+  },
+  {
+    why: "accent only in the candidate's artist",
+    query: { artist: "Beyonce", title: "Halo" },
+    candidate: { name: "Halo", artists: ["Beyoncé"] },
+  },
+  {
+    why: '"&" against "and"',
+    query: { artist: "Simon & Garfunkel", title: "The Boxer" },
+    candidate: { name: "The Boxer", artists: ["Simon and Garfunkel"] },
+  },
+  {
+    why: "featured artists credited differently",
+    query: { artist: "Daft Punk feat. Pharrell Williams", title: "Get Lucky" },
+    candidate: {
+      name: "Get Lucky (feat. Pharrell Williams and Nile Rodgers)",
+      artists: ["Daft Punk", "Pharrell Williams", "Nile Rodgers"],
+    },
+  },
+  {
+    why: "feat. credit only in the candidate's title",
+    query: { artist: "Mark Ronson", title: "Uptown Funk" },
+    candidate: {
+      name: "Uptown Funk (feat. Bruno Mars)",
+      artists: ["Mark Ronson", "Bruno Mars"],
+    },
+  },
+  {
+    why: "remastered album, duration within a second",
+    query: {
+      artist: "Queen",
+      title: "Bohemian Rhapsody",
+      album: "A Night at the Opera",
+      durationMs: 354000,
+    },
+    candidate: {
+      name: "Bohemian Rhapsody - Remastered 2011",
+      artists: ["Queen"],
+      album: "A Night At The Opera (2011 Remaster)",
+      durationMs: 354320,
+    },
+  },
+];
+
+/** Another version or another artist: flagged as uncertain. */
+export const DIFFERENT_RECORDING: MatchFixture[] = [
+  {
+    why: "live cut of a studio scrobble",
+    query: { artist: "Nirvana", title: "Come as You Are" },
+    candidate: { name: "Come As You Are - Live", artists: ["Nirvana"] },
+  },
+  {
+    why: "studio cut of a live scrobble",
+    query: { artist: "Nirvana", title: "Come as You Are (Live)" },
+    candidate: { name: "Come As You Are", artists: ["Nirvana"] },
+  },
+  {
+    why: "acoustic version",
+    query: { artist: "Radiohead", title: "Creep" },
+    candidate: { name: "Creep (Acoustic)", artists: ["Radiohead"] },
+  },
+  {
+    why: "remix with an added artist",
+    query: { artist: "Avicii", title: "Levels" },
+    candidate: {
+      name: "Levels - Skrillex Remix",
+      artists: ["Avicii", "Skrillex"],
+    },
+  },
+  {
+    why: "cover by another artist",
+    query: { artist: "Oasis", title: "Wonderwall" },
+    candidate: { name: "Wonderwall", artists: ["Ryan Adams"] },
+  },
+];
+
+/** searchesFor: a scrobble → the Spotify searches tried, in order. */
+export const SEARCHES: Array<{
+  query: MatchQuery;
+  searches: Array<[MatchedBy, string]>;
+}> = [
+  {
+    query: { artist: "Radiohead", title: "Creep" },
+    searches: [
+      ["exact", 'track:"Creep" artist:"Radiohead"'],
+      ["loose", "Creep Radiohead"],
+    ],
+  },
+  {
+    query: { artist: "Radiohead", title: "Creep", album: "Pablo Honey" },
+    searches: [
+      ["exact", 'track:"Creep" artist:"Radiohead"'],
+      ["album", 'track:"Creep" album:"Pablo Honey"'],
+      ["loose", "Creep Radiohead"],
+    ],
+  },
+  {
+    query: {
+      artist: "Daft Punk feat. Pharrell Williams",
+      title: "Get Lucky (feat. Pharrell Williams) - Radio Edit",
+    },
+    searches: [
+      ["exact", 'track:"Get Lucky" artist:"Daft Punk feat. Pharrell Williams"'],
+      ["no-feat", 'track:"Get Lucky" artist:"Daft Punk"'],
+      ["loose", "Get Lucky Daft Punk"],
+    ],
+  },
+  {
+    query: {
+      artist: "The Beatles",
+      title: "Here Comes the Sun - Remastered 2009",
+      album: "Abbey Road (Remastered)",
+    },
+    searches: [
+      ["exact", 'track:"Here Comes the Sun" artist:"The Beatles"'],
+      ["album", 'track:"Here Comes the Sun" album:"Abbey Road"'],
+      ["loose", "Here Comes the Sun The Beatles"],
+    ],
+  },
+  {
+    query: {
+      artist: "Silk Sonic ft. Bruno Mars",
+      title: "Leave the Door Open",
+    },
+    searches: [
+      [
+        "exact",
+        'track:"Leave the Door Open" artist:"Silk Sonic ft. Bruno Mars"',
+      ],
+      ["no-feat", 'track:"Leave the Door Open" artist:"Silk Sonic"'],
+      ["loose", "Leave the Door Open Silk Sonic"],
+    ],
+  },
+];
@@ -0,0 +1,91 @@
+/**
+ * Track matching over the title fixtures (trackMatch.fixtures.ts).
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { searchesFor } from "@/lib/spotify";
+import {
+  CONFIDENT_MATCH,
+  primaryArtist,
+  scoreCandidate,
+  stripTitle,
+} from "@/lib/trackMatch";
+import {
+  DIFFERENT_RECORDING,
+  PRIMARY_ARTISTS,
+  SAME_RECORDING,
+  SEARCHES,
+  STRIPPED_TITLES,
+} from "@/lib/trackMatch.fixtures";
+
+describe("stripTitle", () => {
+  for (const [title, stripped] of STRIPPED_TITLES) {
+    it(`${title} → ${stripped}`, () => {
+      assert.equal(stripTitle(title), stripped);
+    });
+  }
+});
+
+describe("primaryArtist", () => {
+  for (const [credit, primary] of PRIMARY_ARTISTS) {
+    it(`${credit} → ${primary}`, () => {
+      assert.equal(primaryArtist(credit), primary);
+    });
+  }
+});
+
+describe("scoreCandidate", () => {
+  for (const { why, query, candidate } of SAME_RECORDING) {
+    it(`matches confidently: ${why}`, () => {
+      const score = scoreCandidate(query, candidate);
+      assert.ok(score >= CONFIDENT_MATCH, `scored ${score}`);
+    });
+  }
+  for (const { why, query, candidate } of DIFFERENT_RECORDING) {
+    it(`flags as uncertain: ${why}`, () => {
+      const score = scoreCandidate(query, candidate);
+      assert.ok(score < CONFIDENT_MATCH, `scored ${score}`);
+    });
+  }
+
+  it("prefers the original over a remix of it", () => {
+    const query = { artist: "Avicii", title: "Levels" };
+    const original = scoreCandidate(query, {
+      name: "Levels",
+      artists: ["Avicii"],
+    });
+    const remix = scoreCandidate(query, {
+      name: "Levels - Skrillex Remix",
+      artists: ["Avicii", "Skrillex"],
+    });
+    assert.ok(original > remix);
+  });
+
+  it("prefers the closer duration between otherwise equal candidates", () => {
+    const query = {
+      artist: "Queen",
+      title: "Bohemian Rhapsody",
+      durationMs: 354000,
+    };
+    const close = scoreCandidate(query, {
+      name: "Bohemian Rhapsody",
+      artists: ["Queen"],
+      durationMs: 355000,
+    });
+    const far = scoreCandidate(query, {
+      name: "Bohemian Rhapsody",
+      artists: ["Queen"],
+      durationMs: 420000,
+    });
+    assert.ok(close > far, `${close} vs ${far}`);
+  });
+});
+
+describe("searchesFor", () => {
+  for (const { query, searches } of SEARCHES) {
+    it(`${query.artist} - ${query.title}`, () => {
+      assert.deepEqual(searchesFor(query), searches);
+    });
+  }
+});
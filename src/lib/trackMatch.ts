@@ -0,0 +1,158 @@
+/**
+ * Scoring music-service search results against a Last.fm artist/title
+ * (see spotify.ts' findSpotifyTrack).
+ *
+ * Titles and artists are normalised (case, accents, punctuation, "&" vs
+ * "and", featured-artist credits, remaster/edit suffixes) and compared by
+ * character-bigram similarity, so "Song - 2011 Remaster" still matches
+ * "Song". Versions that change what you hear (live, remix, acoustic…)
+ * are kept apart: a candidate that is one when the scrobble isn't, or the
+ * other way round, is penalised.
+ *
+ * Client-safe: pure functions, plus the threshold the card uses to flag
+ * uncertain matches.
+ */
+
+/** Below this the card marks a match as uncertain. */
+export const CONFIDENT_MATCH = 0.8;
+
+/** How a match was found: the first search that produced it. */
+export type MatchedBy = "exact" | "no-feat" | "album" | "loose";
+
+export type MatchQuery = {
+  artist: string;
+  title: string;
+  album?: string;
+  durationMs?: number;
+};
+
+export type MatchCandidate = {
+  name: string;
+  artists: string[];
+  album?: string;
+  durationMs?: number;
+};
+
+// Suffixes that only label a release of the same recording
+const RELEASE_SUFFIX =
+  /\s+[-–]\s+(?:\d{4}\s+)?(?:remaster(?:ed)?|radio edit|single version|album version|mono|stereo|edit)\b.*$/i;
+const RELEASE_PAREN =
+  /\s*[([](?:\d{4}\s+)?(?:remaster(?:ed)?|radio edit|single version|album version|mono|stereo|edit|deluxe)\b[^)\]]*[)\]]/gi;
+const FEAT_PAREN = /\s*[([](?:feat\.?|ft\.?|featuring|with)\s[^)\]]*[)\]]/gi;
+const FEAT_TAIL = /\s+(?:feat\.?|ft\.?|featuring)\s.*$/i;
+// Versions that sound different, so must agree between scrobble and match
+const VERSION_WORDS = [
+  "live",
+  "remix",
+  "acoustic",
+  "instrumental",
+  "demo",
+  "karaoke",
+  "cover",
+  "unplugged",
+];
+
+/** Title without featured-artist credits or release labels. */
+export function stripTitle(title: string) {
+  return title
+    .replace(FEAT_PAREN, "")
+    .replace(FEAT_TAIL, "")
+    .replace(RELEASE_PAREN, "")
+    .replace(RELEASE_SUFFIX, "")
+    .trim();
+}
+
+/** The billed artist of "A feat. B", "A & B", "A, B" or "A x B". */
+export function primaryArtist(artist: string) {
+  return artist.split(
+    /\s+(?:feat\.?|ft\.?|featuring|x|vs\.?)\s+|\s*[,&]\s*/i
+  )[0];
+}
+
+/** Lowercase, unaccented, "and" for "&", punctuation gone. */
+export function normalize(s: string) {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/^the\s+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(s: string) {
+  const grams = new Map<string, number>();
+  const padded = ` ${s} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient of the normalised strings' bigrams, 0..1. */
+export function similarity(a: string, b: string) {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (x === y) return 1;
+  if (!x || !y) return 0;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  for (const [gram, count] of gx) shared += Math.min(count, gy.get(gram) ?? 0);
+  const total = [...gx.values(), ...gy.values()].reduce((a, c) => a + c, 0);
+  return (2 * shared) / total;
+}
+
+function versionsOf(title: string) {
+  const words = new Set(normalize(title).split(" "));
+  return new Set(VERSION_WORDS.filter((w) => words.has(w)));
+}
+
+/**
+ * How well `candidate` matches `query`, 0..1: a weighted mix of title,
+ * artist, album and duration agreement, minus a penalty per version word
+ * only one side has.
+ */
+export function scoreCandidate(query: MatchQuery, candidate: MatchCandidate) {
+  const title = Math.max(
+    similarity(stripTitle(query.title), stripTitle(candidate.name)),
+    similarity(query.title, candidate.name)
+  );
+  const wanted = [query.artist, primaryArtist(query.artist)];
+  const artist = Math.max(
+    0,
+    ...candidate.artists.flatMap((a) => wanted.map((w) => similarity(w, a)))
+  );
+
+  const parts: Array<[score: number, weight: number]> = [
+    [title, 0.5],
+    [artist, 0.35],
+  ];
+  if (query.album && candidate.album) {
+    parts.push([
+      similarity(stripTitle(query.album), stripTitle(candidate.album)),
+      0.1,
+    ]);
+  }
+  if (query.durationMs && candidate.durationMs) {
+    // Full marks within 3 s, nothing from 30 s apart
+    const apart = Math.abs(query.durationMs - candidate.durationMs) / 1000;
+    parts.push([Math.min(1, Math.max(0, (30 - apart) / 27)), 0.05]);
+  }
+  const weight = parts.reduce((sum, [, w]) => sum + w, 0);
+  const mixed = parts.reduce((sum, [s, w]) => sum + s * w, 0) / weight;
+
+  const ours = versionsOf(query.title);
+  const theirs = versionsOf(candidate.name);
+  let mismatched = 0;
+  for (const w of VERSION_WORDS)
+    if (ours.has(w) !== theirs.has(w)) mismatched++;
+
+  return Math.max(0, Math.min(1, mixed - 0.15 * mismatched));
+}
+
+export function isUncertainMatch(confidence: number | undefined) {
+  return confidence !== undefined && confidence < CONFIDENT_MATCH;
+}
@@ -0,0 +1,257 @@
+/**
+ * Listening stats around one rolled scrobble, for the card's stats panel
+ * (see the track-stats route): the user's and the world's plays of the
+ * track and its artist, when the user first and last played the track,
+ * and what they played right before and after it.
+ *
+ * Plays around the scrobble and first/last times come from the local
+ * history index when the user has one. Live, they come from
+ * user.getRecentTracks windows next to `uts` and from
+ * user.getTrackScrobbles (newest first; its last page holds the first
+ * play). Every part is best-effort: what can't be fetched is null/empty.
+ *
+ * Server-only.
+ */
+
+import { recentPageTtl, TTL } from "@/lib/cache";
+import { getLocalHistory } from "@/lib/historyStore";
+import {
+  buildLastFmUrl,
+  LastFmTrack,
+  PAGE_LIMIT,
+  readRecentTracks,
+  trackKey,
+} from "@/lib/lastfm";
+import { lastFmGet } from "@/lib/lastfmClient";
+
+/** Plays shown on each side of the rolled scrobble. */
+const NEIGHBOURS = 3;
+// How far after the scrobble the live lookup looks for what came next;
+// one page of recent tracks covers it for all but marathon listeners
+const AFTER_WINDOW_S = 6 * 60 * 60;
+
+export type PlayCounts = {
+  /** The user's plays */
+  user: number | null;
+  /** Everyone's plays and distinct listeners */
+  global: number | null;
+  listeners: number | null;
+};
+
+export type NeighbourPlay = { artist: string; name: string; uts: number };
+
+export type TrackStats = {
+  track: PlayCounts;
+  artist: PlayCounts;
+  /** The user's first and latest scrobble of the track (unix seconds) */
+  firstPlayed: number | null;
+  lastPlayed: number | null;
+  /** Plays right before the scrobble, oldest first */
+  before: NeighbourPlay[];
+  /** Plays right after it, oldest first */
+  after: NeighbourPlay[];
+  source: "local" | "live";
+};
+
+const NO_COUNTS: PlayCounts = { user: null, global: null, listeners: null };
+
+function count(raw: unknown) {
+  const value = Number(raw);
+  return raw == null || raw === "" || isNaN(value) ? null : value;
+}
+
+function neighbour(track: LastFmTrack): NeighbourPlay[] {
+  const uts = Number(track.date?.uts);
+  return isNaN(uts)
+    ? []
+    : [{ artist: track.artist["#text"], name: track.name, uts }];
+}
+
+// ---- Play counts (track.getInfo / artist.getInfo) ----
+
+async function trackCounts(
+  apiKey: string,
+  user: string,
+  artist: string,
+  track: string
+): Promise<PlayCounts> {
+  const result = await lastFmGet<{
+    track?: { userplaycount?: string; playcount?: string; listeners?: string };
+  }>(
+    buildLastFmUrl("track.getInfo", apiKey, {
+      artist,
+      track,
+      username: user,
+      autocorrect: 1,
+    }),
+    TTL.userInfo
+  );
+  if ("error" in result) return NO_COUNTS;
+  const info = result.data.track;
+  return {
+    user: count(info?.userplaycount),
+    global: count(info?.playcount),
+    listeners: count(info?.listeners),
+  };
+}
+
+async function artistCounts(
+  apiKey: string,
+  user: string,
+  artist: string
+): Promise<PlayCounts> {
+  const result = await lastFmGet<{
+    artist?: {
+      stats?: {
+        userplaycount?: string;
+        playcount?: string;
+        listeners?: string;
+      };
+    };
+  }>(
+    buildLastFmUrl("artist.getInfo", apiKey, {
+      artist,
+      username: user,
+      autocorrect: 1,
+    }),
+    TTL.userInfo
+  );
+  if ("error" in result) return NO_COUNTS;
+  const stats = result.data.artist?.stats;
+  return {
+    user: count(stats?.userplaycount),
+    global: count(stats?.playcount),
+    listeners: count(stats?.listeners),
+  };
+}
+
+// ---- Live history around the scrobble ----
+
+async function recentWindow(
+  apiKey: string,
+  user: string,
+  range: { from?: number; to: number },
+  limit: number
+) {
+  const result = await lastFmGet(
+    buildLastFmUrl("user.getRecentTracks", apiKey, { user, limit, ...range }),
+    recentPageTtl(range)
+  );
+  // Pages are newest first
+  return "error" in result
+    ? []
+    : readRecentTracks(result.data).tracks.reverse().flatMap(neighbour);
+}
+
+async function trackScrobblePage(
+  apiKey: string,
+  user: string,
+  artist: string,
+  track: string,
+  page: number
+) {
+  const result = await lastFmGet<{
+    trackscrobbles?: {
+      track?: LastFmTrack | LastFmTrack[];
+      "@attr"?: { totalPages?: string };
+    };
+  }>(
+    buildLastFmUrl("user.getTrackScrobbles", apiKey, {
+      user,
+      artist,
+      track,
+      limit: 1,
+      page,
+    }),
+    TTL.recentPage
+  );
+  if ("error" in result) return null;
+  const raw = result.data.trackscrobbles?.track;
+  const first = Array.isArray(raw) ? raw[0] : raw;
+  return {
+    uts: count(first?.date?.uts),
+    pages: count(result.data.trackscrobbles?.["@attr"]?.totalPages),
+  };
+}
+
+async function liveHistory(
+  apiKey: string,
+  user: string,
+  artist: string,
+  track: string,
+  uts: number
+) {
+  const [before, after, latest] = await Promise.all([
+    recentWindow(apiKey, user, { to: uts - 1 }, NEIGHBOURS),
+    recentWindow(
+      apiKey,
+      user,
+      { from: uts + 1, to: uts + AFTER_WINDOW_S },
+      PAGE_LIMIT
+    ),
+    trackScrobblePage(apiKey, user, artist, track, 1),
+  ]);
+  const pages = latest?.pages ?? null;
+  const earliest =
+    pages && pages > 1
+      ? await trackScrobblePage(apiKey, user, artist, track, pages)
+      : latest;
+  return {
+    firstPlayed: earliest?.uts ?? null,
+    lastPlayed: latest?.uts ?? null,
+    before,
+    after: after.slice(0, NEIGHBOURS),
+  };
+}
+
+// ---- Aggregate ----
+
+export async function loadTrackStats(
+  apiKey: string,
+  user: string,
+  artist: string,
+  track: string,
+  uts: number
+): Promise<TrackStats> {
+  const counts = Promise.all([
+    trackCounts(apiKey, user, artist, track),
+    artistCounts(apiKey, user, artist),
+  ]);
+
+  const local = await getLocalHistory(user);
+  if (!local) {
+    const [[trackPlays, artistPlays], history] = await Promise.all([
+      counts,
+      liveHistory(apiKey, user, artist, track, uts),
+    ]);
+    return {
+      track: trackPlays,
+      artist: artistPlays,
+      ...history,
+      source: "live",
+    };
+  }
+
+  // Rows before the scrobble; the scrobble itself is row `index + 1`
+  const index = local.count({ to: uts - 1 });
+  const rows = (from: number, to: number) => {
+    const picked: NeighbourPlay[] = [];
+    for (let n = Math.max(1, from); n <= to; n++) {
+      const row = local.at(n);
+      if (row) picked.push(...neighbour(row));
+    }
+    return picked;
+  };
+  const key = trackKey(artist, track);
+  const plays = local.select({}, (t) => trackKey(t.artist, t.name) === key);
+  const [trackPlays, artistPlays] = await counts;
+  return {
+    track: trackPlays,
+    artist: artistPlays,
+    firstPlayed: count(plays[0]?.date?.uts),
+    lastPlayed: count(plays.at(-1)?.date?.uts),
+    before: rows(index - NEIGHBOURS + 1, index),
+    after: rows(index + 2, index + 1 + NEIGHBOURS),
+    source: "local",
+  };
+}
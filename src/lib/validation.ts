@@ -0,0 +1,18 @@
+/**
+ * Shape checks on request input, run before anything reaches Last.fm.
+ *
+ * Client-safe (and edge-safe: middleware.ts uses them).
+ */
+
+// Last.fm's signup rules: 2-15 characters, a letter first, then letters,
+// digits, "_" or "-"
+const LASTFM_USERNAME = /^[A-Za-z][A-Za-z0-9_-]{1,14}$/;
+
+export function isLastFmUsername(value: string) {
+  return LASTFM_USERNAME.test(value);
+}
+
+/** A 1-based spin index as written in a query string: digits, no sign. */
+export function isSpinIndex(value: string) {
+  return /^[1-9][0-9]{0,9}$/.test(value);
+}
@@ -0,0 +1,124 @@
+/**
+ * Guards the API routes that spend our Last.fm key and Spotify credentials,
+ * and the server-rendered spin pages (`/?user=&n=`, `/u/[user]/[n]`,
+ * `/daily/[user]`) that load scrobbles the same way:
+ *
+ * - Rejects a malformed `user`, `users` or `n` with 400 before the route
+ *   runs (see lib/validation). Pages take them from their path.
+ * - Charges each request to its client IP and to every username it names
+ *   (see lib/rateLimit); over the limit it answers 429 with `Retry-After`.
+ *   Routes that fan out into many upstream calls cost more than one, and
+ *   sync status polls cost nothing (see routeCost).
+ *
+ * API routes get JSON errors, pages plain text.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_PARTY_USERS, parsePartyUsers } from "@/lib/party";
+import { chargeRequest, routeCost } from "@/lib/rateLimit";
+import { isLastFmUsername, isSpinIndex } from "@/lib/validation";
+
+export const config = {
+  matcher: [
+    "/api/lastfm/:path*",
+    "/api/spotify/:path*",
+    "/api/og",
+    "/",
+    "/u/:user/:n",
+    "/daily/:user",
+  ],
+};
+
+// Proxies in front of the app that append to X-Forwarded-For: 1 for
+// Vercel or a single load balancer, 0 when clients connect directly
+const TRUSTED_PROXIES = Number(process.env.SLOTFM_TRUSTED_PROXIES ?? 1);
+
+/**
+ * The address the outermost trusted proxy saw: the X-Forwarded-For entry
+ * TRUSTED_PROXIES from the right. Entries left of it come from the client
+ * and can say anything. Without a trusted proxy every request is "unknown".
+ */
+function clientIp(req: NextRequest) {
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (TRUSTED_PROXIES > 0 && hops.at(-TRUSTED_PROXIES)) || "unknown";
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    // Left as is; validation refuses it
+    return segment;
+  }
+}
+
+/** `user`, `users` and `n` as the route or page names them. */
+function spinInput(req: NextRequest) {
+  const { searchParams, pathname } = req.nextUrl;
+  const [, page, user, n] = pathname.split("/").map(decodeSegment);
+  if (page === "u") return { user, users: [], n };
+  if (page === "daily") return { user, users: [], n: null };
+  return {
+    user: searchParams.get("user"),
+    users: parsePartyUsers(searchParams.get("users") ?? ""),
+    n: searchParams.get("n"),
+  };
+}
+
+function refuse(
+  isPage: boolean,
+  status: number,
+  error: string,
+  code: string,
+  headers?: HeadersInit
+) {
+  return isPage
+    ? new NextResponse(error, { status, headers })
+    : NextResponse.json({ error, code }, { status, headers });
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const isPage = !pathname.startsWith("/api/");
+  const { user, users, n } = spinInput(req);
+  // The plain home page loads nothing on the server
+  if (pathname === "/" && user === null && n === null) {
+    return NextResponse.next();
+  }
+
+  // --- 1. Validate input ---
+  const badRequest = (error: string) =>
+    refuse(isPage, 400, error, "invalid_input");
+  if (user !== null && !isLastFmUsername(user)) {
+    return badRequest("Invalid Last.fm username");
+  }
+  if (!users.every(isLastFmUsername)) {
+    return badRequest("Invalid Last.fm username in 'users'");
+  }
+  if (n !== null && !isSpinIndex(n)) {
+    return badRequest("Invalid 'n' value");
+  }
+
+  // --- 2. Rate limit ---
+  const cost = routeCost(req.method, pathname);
+  if (cost === 0) return NextResponse.next();
+  const named = [...(user ? [user] : []), ...users.slice(0, MAX_PARTY_USERS)];
+  const { allowed, retryAfterS } = await chargeRequest(
+    clientIp(req),
+    named,
+    cost
+  );
+  if (!allowed) {
+    return refuse(
+      isPage,
+      429,
+      "Too many requests; try again shortly",
+      "rate_limited",
+      { "Retry-After": String(retryAfterS) }
+    );
+  }
+  return NextResponse.next();
+}